@@ -0,0 +1,65 @@
+/**
+ * Writes the runtime blueprint schemas out as JSON Schema files so editors can offer
+ * autocomplete and inline errors while authoring `public/blueprints/**`.
+ *
+ * Usage: npm run schemas:generate [-- --check]
+ */
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import { publishedSchemas } from '../src/schemas/blueprints';
+
+const outDir = fileURLToPath(new URL('../schemas/', import.meta.url));
+const checkOnly = process.argv.includes('--check');
+
+async function readExisting(file: string): Promise<string | null> {
+  try {
+    return await readFile(file, 'utf8');
+  } catch {
+    return null;
+  }
+}
+
+async function main(): Promise<void> {
+  await mkdir(outDir, { recursive: true });
+
+  const stale: string[] = [];
+  for (const [name, schema] of Object.entries(publishedSchemas)) {
+    const fileName = `${name}.schema.json`;
+    // Blueprint files may point at their schema with a top-level "$schema" key
+    const properties =
+      schema.type === 'object'
+        ? { $schema: { type: 'string' }, ...schema.properties }
+        : schema.properties;
+    const contents =
+      JSON.stringify(
+        {
+          $schema: 'http://json-schema.org/draft-07/schema#',
+          $id: fileName,
+          ...schema,
+          properties,
+        },
+        null,
+        2
+      ) + '\n';
+
+    const file = `${outDir}${fileName}`;
+    if ((await readExisting(file)) === contents) continue;
+
+    if (checkOnly) {
+      stale.push(fileName);
+    } else {
+      await writeFile(file, contents);
+      console.log(`Wrote schemas/${fileName}`);
+    }
+  }
+
+  if (stale.length > 0) {
+    console.error(`Out of date: ${stale.join(', ')}. Run "npm run schemas:generate".`);
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,19 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { BlueprintSource } from '../../src/core/sources/BlueprintSource';
+
+/**
+ * Reads blueprints straight from a `public/` folder on disk, for Node scripts.
+ */
+export class FileSystemBlueprintSource implements BlueprintSource {
+  constructor(private publicDir: string) {}
+
+  async readJson(relativePath: string): Promise<unknown> {
+    const contents = await readFile(path.join(this.publicDir, relativePath), 'utf8');
+    try {
+      return JSON.parse(contents);
+    } catch (error) {
+      throw new Error(`Invalid JSON: ${error}`);
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import { execFile } from 'node:child_process';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+
+const view = { default: { uri: '/assets/placeholder.svg' } };
+
+const character = (id: string, role: string) => ({
+  id,
+  name: id,
+  role,
+  view,
+  identity: { personality: 'Calm', background: 'Local', speaking_style: 'Plain' },
+  voice: {},
+  inventory: [],
+});
+
+/** A one-scene game, keyed by path under public/ */
+const gameFiles: Record<string, unknown> = {
+  'blueprints/languages.json': ['en_US'],
+  'blueprints/game.json': {
+    id: 'lint_game',
+    title: 'Lint Game',
+    version: '1.0.0',
+    description: 'A game for the lint',
+    authors: ['Tests'],
+    player_character_id: 'mc',
+    routes: ['main_route'],
+    starting_route: 'main_route',
+    theme: 'default',
+  },
+  'themes/default.json': {
+    id: 'default',
+    name: 'Default',
+    colors: { primary: '#000', secondary: '#111', background: '#222', text: '#fff' },
+    fonts: { heading: 'serif', body: 'serif', dialogue: 'serif' },
+  },
+  'blueprints/en_US/routes.json': [
+    {
+      id: 'main_route',
+      title: 'Main',
+      description: 'The main route',
+      chapters: ['chapter_1'],
+      starting_chapter: 'chapter_1',
+    },
+  ],
+  'blueprints/en_US/chapters.json': [
+    { id: 'chapter_1', title: 'Chapter 1', intro: 'It begins', scenes: ['scene_1'] },
+  ],
+  'blueprints/en_US/characters/index.json': ['mc', 'riley'],
+  'blueprints/en_US/characters/mc.json': character('mc', 'player'),
+  'blueprints/en_US/characters/riley.json': character('riley', 'npc'),
+  'blueprints/en_US/items/index.json': [],
+  'blueprints/en_US/scenes/index.json': ['scene_1'],
+  'blueprints/en_US/scenes/scene_1.json': {
+    id: 'scene_1',
+    title: 'First Meeting',
+    view,
+    prompt: 'You meet Riley.',
+    characters: ['mc', 'riley'],
+    goals: [{ id: 'meet_riley', description: 'Meet Riley', on_complete: {} }],
+  },
+};
+
+let publicDir: string | undefined;
+
+afterEach(async () => {
+  if (publicDir) await rm(publicDir, { recursive: true, force: true });
+  publicDir = undefined;
+});
+
+/** Write `files` to a fresh public dir, with the placeholder image every view points at */
+async function writePublicDir(files: Record<string, unknown>): Promise<string> {
+  publicDir = await mkdtemp(path.join(tmpdir(), 'blueprints-lint-'));
+  const contents: Record<string, string> = { 'assets/placeholder.svg': '<svg/>' };
+  for (const [file, json] of Object.entries(files)) contents[file] = JSON.stringify(json);
+
+  for (const [file, text] of Object.entries(contents)) {
+    await mkdir(path.dirname(path.join(publicDir, file)), { recursive: true });
+    await writeFile(path.join(publicDir, file), text);
+  }
+  return publicDir;
+}
+
+/** Run the lint CLI against `dir` and resolve to its exit code and output */
+function lint(dir: string): Promise<{ code: number; output: string }> {
+  return new Promise((resolve) => {
+    execFile(
+      path.resolve('node_modules/.bin/vite-node'),
+      ['scripts/lint-blueprints.ts', dir],
+      (error, stdout, stderr) =>
+        resolve({ code: error ? Number(error.code) : 0, output: stdout + stderr })
+    );
+  });
+}
+
+describe('blueprints:lint', () => {
+  it('exits with 0 for a consistent game', async () => {
+    const { code, output } = await lint(await writePublicDir(gameFiles));
+
+    expect(output).toContain('[en_US] OK');
+    expect(code).toBe(0);
+  }, 30_000);
+
+  it('exits with 1 when a reference or asset is broken', async () => {
+    const { code, output } = await lint(
+      await writePublicDir({
+        ...gameFiles,
+        'blueprints/en_US/chapters.json': [
+          { id: 'chapter_1', title: 'Chapter 1', intro: 'It begins', scenes: ['scene_1', 'lost'] },
+        ],
+        'blueprints/en_US/characters/riley.json': {
+          ...character('riley', 'npc'),
+          view: { default: { uri: '/assets/missing.png' } },
+        },
+      })
+    );
+
+    expect(output).toContain('Unknown scene "lost"');
+    expect(output).toContain('Asset "assets/missing.png" does not exist under public/');
+    expect(code).toBe(1);
+  }, 30_000);
+});
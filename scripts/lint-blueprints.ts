@@ -0,0 +1,157 @@
+/**
+ * Loads every blueprint language from disk through BlueprintRegistry and reports schema errors,
+ * broken cross-references and image/audio/stylesheet URIs that don't point at a file under
+ * `public/`.
+ * Exits non-zero when any errors are found.
+ *
+ * Usage: npm run blueprints:lint [-- <public dir>]
+ */
+import { access } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { BlueprintRegistry } from '../src/core/BlueprintRegistry';
+import { BlueprintValidationError, formatValidationReport } from '../src/core/BlueprintValidator';
+import { AudioBlueprint, ImageBlueprint } from '../src/types/blueprints';
+import { ValidationIssue, ValidationReport } from '../src/types/validation';
+import { FileSystemBlueprintSource } from './lib/FileSystemBlueprintSource';
+
+const publicDir = process.argv[2]
+  ? path.resolve(process.argv[2])
+  : fileURLToPath(new URL('../public/', import.meta.url));
+const source = new FileSystemBlueprintSource(publicDir);
+
+interface AssetReference {
+  file: string;
+  path: string;
+  asset: Pick<ImageBlueprint | AudioBlueprint, 'uri'> | undefined;
+}
+
+function collectAssets(registry: BlueprintRegistry, language: string): AssetReference[] {
+  const refs: AssetReference[] = [
+    { file: 'game.json', path: 'main_menu_image.uri', asset: registry.getGame().main_menu_image },
+  ];
+
+  for (const char of registry.getAllCharacters()) {
+    const file = `${language}/characters/${char.id}.json`;
+    for (const [state, image] of Object.entries(char.view)) {
+      refs.push({ file, path: `view.${state}.uri`, asset: image });
+    }
+    char.inventory.forEach((item, i) => {
+      refs.push({ file, path: `inventory[${i}].image.uri`, asset: item.image });
+    });
+  }
+
+  for (const scene of registry.getAllScenes()) {
+    const file = `${language}/scenes/${scene.id}.json`;
+    for (const [state, image] of Object.entries(scene.view)) {
+      refs.push({ file, path: `view.${state}.uri`, asset: image });
+    }
+    refs.push({ file, path: 'audio.uri', asset: scene.audio });
+  }
+
+  for (const item of registry.getAllItems()) {
+    refs.push({ file: `${language}/items/${item.id}.json`, path: 'image.uri', asset: item.image });
+  }
+
+  for (const route of registry.getAllRoutes()) {
+    refs.push({
+      file: `${language}/routes.json`,
+      path: `[${route.id}].ending.image.uri`,
+      asset: route.ending?.image,
+    });
+  }
+
+  for (const theme of registry.getAvailableThemes()) {
+    const asset = theme.stylesheet ? { uri: theme.stylesheet } : undefined;
+    refs.push({ file: `themes/${theme.id}.json`, path: 'stylesheet', asset });
+  }
+
+  return refs;
+}
+
+async function checkAssets(registry: BlueprintRegistry, language: string) {
+  const issues: ValidationIssue[] = [];
+  const baseUrl = import.meta.env.BASE_URL;
+
+  for (const { file, path: fieldPath, asset } of collectAssets(registry, language)) {
+    const uri = asset?.uri;
+    if (!uri || /^https?:\/\//.test(uri)) continue;
+
+    // The registry has already run URIs through resolveAssetPath, so undo the base prefix
+    const relative = uri.startsWith(baseUrl) ? uri.slice(baseUrl.length) : uri;
+    try {
+      await access(path.join(publicDir, relative));
+    } catch {
+      issues.push({
+        severity: 'error',
+        file,
+        path: fieldPath,
+        message: `Asset "${relative}" does not exist under public/`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+async function lintLanguage(language: string): Promise<ValidationReport> {
+  const registry = new BlueprintRegistry(source, { validation: 'silent' });
+
+  try {
+    await registry.load(language);
+  } catch (error) {
+    if (error instanceof BlueprintValidationError) return error.report;
+    const message = error instanceof Error ? error.message : String(error);
+    return { errors: [{ severity: 'error', file: language, message }], warnings: [] };
+  }
+
+  const report = registry.getValidationReport();
+  return {
+    errors: [...report.errors, ...(await checkAssets(registry, language))],
+    warnings: report.warnings,
+  };
+}
+
+async function main(): Promise<void> {
+  const languages = await source
+    .readJson('blueprints/languages.json')
+    .then((list) => (Array.isArray(list) ? list.filter((l) => typeof l === 'string') : []))
+    .catch(() => []);
+
+  if (languages.length === 0) {
+    console.error('blueprints/languages.json is missing or lists no languages');
+    process.exit(1);
+  }
+
+  let errorCount = 0;
+  const reported = new Set<string>();
+
+  for (const language of languages) {
+    const report = await lintLanguage(language);
+
+    // Language-independent files (game.json, themes) would otherwise repeat once per language
+    const isNew = (issue: ValidationIssue) => {
+      const key = `${issue.file}|${issue.path}|${issue.message}`;
+      if (reported.has(key)) return false;
+      reported.add(key);
+      return true;
+    };
+    const unique = { errors: report.errors.filter(isNew), warnings: report.warnings.filter(isNew) };
+
+    errorCount += unique.errors.length;
+    if (unique.errors.length === 0 && unique.warnings.length === 0) {
+      console.log(`[${language}] OK`);
+    } else {
+      console.log(`[${language}] ${formatValidationReport(unique)}`);
+    }
+  }
+
+  if (errorCount > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
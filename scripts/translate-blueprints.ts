@@ -0,0 +1,247 @@
+/**
+ * Creates a new blueprint language by machine-translating an existing one through the Player2
+ * chat completion API (or any OpenAI-compatible stand-in). Only translatable text fields are
+ * sent; ids, URIs and structure are copied unchanged. Writes `public/blueprints/<to>/`,
+ * `public/locales/<to>.json` and registers the language in `languages.json`.
+ *
+ * Usage:
+ *   npm run translations:generate -- --from en_US --to fr_FR
+ *     [--endpoint http://localhost:4315/v1] [--glossary translation-glossary.json] [--overwrite]
+ *
+ * Authentication uses PLAYER2_API_KEY (or VITE_PLAYER2_API_KEY) when set. The glossary maps
+ * source terms to their fixed rendering per language, e.g. `{ "Riley": { "ko_KR": "라일리" } }`;
+ * a term without an entry for the target language is kept as-is.
+ */
+import { access, mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { LANGUAGE_NAMES } from '../src/utils/languages';
+import {
+  collectTranslatableStrings,
+  mapTranslatableStrings,
+  TranslatableOptions,
+} from '../src/utils/translatable';
+
+const DEFAULT_ENDPOINT = 'https://api.player2.game/v1';
+const MAX_ATTEMPTS = 3;
+
+const rootDir = fileURLToPath(new URL('../', import.meta.url));
+const publicDir = path.join(rootDir, 'public');
+
+type Glossary = Record<string, Record<string, string>>;
+
+interface Options {
+  from: string;
+  to: string;
+  endpoint: string;
+  glossaryPath: string;
+  overwrite: boolean;
+}
+
+function parseArgs(argv: string[]): Options {
+  const value = (flag: string) => {
+    const index = argv.indexOf(flag);
+    return index === -1 ? undefined : argv[index + 1];
+  };
+
+  const from = value('--from');
+  const to = value('--to');
+  if (!from || !to) {
+    console.error('Usage: translate-blueprints --from <language> --to <language> [options]');
+    process.exit(1);
+  }
+
+  return {
+    from,
+    to,
+    endpoint:
+      value('--endpoint') ||
+      process.env.PLAYER2_ENDPOINT ||
+      process.env.VITE_PLAYER2_ENDPOINT ||
+      DEFAULT_ENDPOINT,
+    glossaryPath: path.resolve(rootDir, value('--glossary') || 'translation-glossary.json'),
+    overwrite: argv.includes('--overwrite'),
+  };
+}
+
+async function readJson(file: string): Promise<unknown> {
+  return JSON.parse(await readFile(file, 'utf8'));
+}
+
+async function writeJson(file: string, data: unknown): Promise<void> {
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(file, JSON.stringify(data, null, 2) + '\n');
+}
+
+async function exists(file: string): Promise<boolean> {
+  try {
+    await access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function loadGlossary(file: string): Promise<Glossary> {
+  if (!(await exists(file))) return {};
+  return (await readJson(file)) as Glossary;
+}
+
+function describeGlossary(glossary: Glossary, language: string): string {
+  const terms = Object.entries(glossary).map(([term, renderings]) => {
+    const rendering = renderings[language];
+    return rendering ? `- "${term}" → "${rendering}"` : `- "${term}" → keep as "${term}"`;
+  });
+  return terms.length > 0
+    ? `Always translate these terms exactly as listed:\n${terms.join('\n')}\n\n`
+    : '';
+}
+
+function parseTranslations(content: string, keys: string[]): Record<string, string> | null {
+  const json = content
+    .trim()
+    .replace(/^```(?:json)?\s*/, '')
+    .replace(/```$/, '');
+  try {
+    const parsed = JSON.parse(json) as Record<string, unknown>;
+    const complete = keys.every((key) => typeof parsed[key] === 'string');
+    return complete ? (parsed as Record<string, string>) : null;
+  } catch {
+    return null;
+  }
+}
+
+class Translator {
+  constructor(
+    private options: Options,
+    private glossary: Glossary
+  ) {}
+
+  private async chatCompletion(messages: unknown[]): Promise<string> {
+    const apiKey = process.env.PLAYER2_API_KEY || process.env.VITE_PLAYER2_API_KEY;
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) {
+      headers.Authorization = `Bearer ${apiKey}`;
+    }
+
+    const response = await fetch(`${this.options.endpoint}/chat/completions`, {
+      method: 'POST',
+      headers,
+      // The API expects both tool fields on every request, even without tools
+      body: JSON.stringify({ messages, tools: [], tool_choice: 'none' }),
+    });
+    if (!response.ok) {
+      throw new Error(`Chat completion failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as { choices: Array<{ message: { content?: string } }> };
+    return data.choices[0]?.message.content ?? '';
+  }
+
+  /**
+   * Translate a batch of strings keyed by field path, retrying when the model's reply isn't a
+   * JSON object with exactly the same keys.
+   */
+  private async translateStrings(
+    strings: Record<string, string>,
+    context: string
+  ): Promise<Record<string, string>> {
+    const { from, to } = this.options;
+    const keys = Object.keys(strings);
+    if (keys.length === 0) return {};
+
+    const system =
+      `You translate visual novel content from ${LANGUAGE_NAMES[from] || from} to ` +
+      `${LANGUAGE_NAMES[to] || to}. Preserve tone, character voice, formatting and placeholders. ` +
+      describeGlossary(this.glossary, to) +
+      'Reply with a single JSON object that has exactly the same keys as the input and the ' +
+      'translated text as values. Do not add commentary.';
+
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      const content = await this.chatCompletion([
+        { role: 'system', content: system },
+        { role: 'user', content: `File: ${context}\n\n${JSON.stringify(strings, null, 2)}` },
+      ]);
+
+      const translations = parseTranslations(content, keys);
+      if (translations) return translations;
+      console.warn(`  ${context}: malformed reply (attempt ${attempt}/${MAX_ATTEMPTS})`);
+    }
+
+    throw new Error(`Could not get a valid translation for ${context}`);
+  }
+
+  async translateFile(
+    sourceFile: string,
+    targetFile: string,
+    options: TranslatableOptions = {}
+  ): Promise<void> {
+    const data = await readJson(sourceFile);
+    const strings = Object.fromEntries(collectTranslatableStrings(data, options));
+    const context = path.relative(publicDir, targetFile);
+
+    const translations = await this.translateStrings(strings, context);
+    const translated = mapTranslatableStrings(
+      data,
+      (fieldPath, text) => translations[fieldPath] ?? text,
+      options
+    );
+
+    await writeJson(targetFile, translated);
+    console.log(`Wrote ${context} (${Object.keys(strings).length} strings)`);
+  }
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  const { from, to } = options;
+
+  const blueprintsDir = path.join(publicDir, 'blueprints');
+  const sourceDir = path.join(blueprintsDir, from);
+  const targetDir = path.join(blueprintsDir, to);
+
+  if (!(await exists(sourceDir))) {
+    console.error(`Source language folder blueprints/${from} does not exist`);
+    process.exit(1);
+  }
+  if ((await exists(targetDir)) && !options.overwrite) {
+    console.error(`blueprints/${to} already exists; pass --overwrite to replace it`);
+    process.exit(1);
+  }
+
+  const translator = new Translator(options, await loadGlossary(options.glossaryPath));
+
+  for (const file of ['chapters.json', 'routes.json']) {
+    await translator.translateFile(path.join(sourceDir, file), path.join(targetDir, file));
+  }
+
+  for (const folder of ['characters', 'scenes', 'items']) {
+    const ids = (await readJson(path.join(sourceDir, folder, 'index.json'))) as string[];
+    await writeJson(path.join(targetDir, folder, 'index.json'), ids);
+
+    for (const id of ids) {
+      await translator.translateFile(
+        path.join(sourceDir, folder, `${id}.json`),
+        path.join(targetDir, folder, `${id}.json`)
+      );
+    }
+  }
+
+  await translator.translateFile(
+    path.join(publicDir, 'locales', `${from}.json`),
+    path.join(publicDir, 'locales', `${to}.json`),
+    { allStrings: true }
+  );
+
+  const languagesFile = path.join(blueprintsDir, 'languages.json');
+  const languages = (await readJson(languagesFile)) as string[];
+  if (!languages.includes(to)) {
+    await writeJson(languagesFile, [...languages, to]);
+    console.log(`Registered ${to} in blueprints/languages.json`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,34 @@
+/**
+ * Reports, for every language in languages.json, which blueprint files, keys and index ids are
+ * missing compared to the base language and which strings are still untranslated. Covers the
+ * UI strings in `public/locales/*.json` too.
+ *
+ * Usage: npm run translations:coverage [-- --json]
+ */
+import { fileURLToPath } from 'node:url';
+import { formatTranslationCoverage, TranslationCoverage } from '../src/core/TranslationCoverage';
+import { FileSystemBlueprintSource } from './lib/FileSystemBlueprintSource';
+
+const publicDir = fileURLToPath(new URL('../public/', import.meta.url));
+const source = new FileSystemBlueprintSource(publicDir);
+
+async function main(): Promise<void> {
+  const languages = await source.readJson('blueprints/languages.json');
+  if (!Array.isArray(languages) || languages.length === 0) {
+    console.error('blueprints/languages.json is missing or lists no languages');
+    process.exit(1);
+  }
+
+  const report = await new TranslationCoverage(source).analyze(languages);
+
+  if (process.argv.includes('--json')) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    console.log(formatTranslationCoverage(report));
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -1,6 +1,11 @@
 import { useState, useEffect } from 'react';
-import { BlueprintRegistry } from './core/BlueprintRegistry';
+import { BlueprintRegistry, LoadProgress } from './core/BlueprintRegistry';
+import { HttpBlueprintSource } from './core/sources/HttpBlueprintSource';
+import { ProgressionStep, StoryProgression } from './core/StoryProgression';
+import { RouteRequirements } from './core/RouteRequirements';
+import { SceneUpdate } from './core/GameEngine';
 import { RegistryContext } from './contexts/RegistryContext';
+import { ProviderContext } from './contexts/ProviderContext';
 import { useGameStore } from './stores/gameStore';
 import { ThemeProvider } from './components/ThemeProvider';
 import { MainMenu } from './components/MainMenu';
@@ -8,40 +13,128 @@ import { RouteSelection } from './components/RouteSelection';
 import { CharacterIntro } from './components/CharacterIntro';
 import { ChapterIntro } from './components/ChapterIntro';
 import { SceneView } from './components/SceneView';
+import { RouteEnding } from './components/RouteEnding';
 import { ApiKeyModal } from './components/ApiKeyModal';
+import { ErrorNotice } from './components/ErrorNotice';
 import { player2Service } from './services/player2';
+import {
+  createProvider,
+  environmentProviderSettings,
+  Player2Provider,
+  savedProviderSettings,
+} from './services/providers';
+import { LLMProvider, ProviderSettings } from './types/llm';
+
+async function startProvider(settings: ProviderSettings): Promise<LLMProvider> {
+  const provider = await createProvider(settings);
+  await provider.initialize();
+  return provider;
+}
 
 export function App() {
-  const [registry] = useState(() => new BlueprintRegistry());
-  const [loaded, setLoaded] = useState(false);
-  const [screen, setScreen] = useState<'menu' | 'route' | 'character-intro' | 'chapter' | 'scene'>(
-    'menu'
+  const [registry] = useState(
+    () =>
+      new BlueprintRegistry(new HttpBlueprintSource(), {
+        lazy: import.meta.env.VITE_LAZY_BLUEPRINTS === 'true',
+      })
+  );
+  const [progression] = useState(() => new StoryProgression(registry));
+  const [routeRequirements] = useState(() => new RouteRequirements(registry));
+  // Set once loaded; chosen in settings or by the environment. Null if none could be started,
+  // in which case the game only runs up to the point the player would talk to an NPC
+  const [provider, setProvider] = useState<LLMProvider | null>(null);
+  // A provider problem the player can get past, e.g. saved settings that were set aside
+  const [providerNotice, setProviderNotice] = useState<{ title: string; message?: string } | null>(
+    null
   );
+  const [loaded, setLoaded] = useState(false);
+  const [loadProgress, setLoadProgress] = useState<LoadProgress | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [screen, setScreen] = useState<
+    'menu' | 'route' | 'character-intro' | 'chapter' | 'scene' | 'ending'
+  >('menu');
+  // Remounts SceneView for every scene so each one starts from a clean engine
+  const [sceneKey, setSceneKey] = useState(0);
+  const [endedRoute, setEndedRoute] = useState<string | null>(null);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [showApiKeyModal, setShowApiKeyModal] = useState(false);
   const [apiKeyError, setApiKeyError] = useState<string | null>(null);
   const gameStore = useGameStore();
 
-  // Load game data on mount and initialize player2Service
+  // Load game data on mount and initialize the LLM provider
   useEffect(() => {
+    const unsubscribe = registry.onProgress(setLoadProgress);
+
     async function init() {
       await registry.load();
-      await player2Service.initialize();
+      setProvider(await connectProvider());
       setLoaded(true);
+
       const game = registry.getGame();
-      const startRoute = game.starting_route;
-      const route = registry.getRoute(startRoute);
-      const firstChapter = route.starting_chapter;
-      const chapter = registry.getChapter(firstChapter);
-      const firstScene = chapter.scenes[0];
-
-      gameStore.setCurrentScene(startRoute, firstChapter, firstScene);
-      gameStore.unlockRoute(startRoute);
+      gameStore.newGame(game, registry.getCharacter(game.player_character_id).inventory);
+      const { route, chapter, scene } = progression.start(
+        game.starting_route,
+        useGameStore.getState()
+      );
+      gameStore.setCurrentScene(route, chapter, scene);
     }
 
-    init();
+    // Settings saved from the settings screen that no longer work shouldn't lock the player
+    // out of the game, so the environment's provider stands in and the error is shown. If that
+    // fails too, the game still loads so the player can pick a working one in the settings
+    async function connectProvider(): Promise<LLMProvider | null> {
+      const saved = savedProviderSettings();
+      if (saved) {
+        try {
+          return await startProvider(saved);
+        } catch (error) {
+          console.error('Saved provider settings failed, using the default provider:', error);
+          setProviderNotice({
+            title: 'ui.provider.fallback',
+            message: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+      try {
+        return await startProvider(environmentProviderSettings());
+      } catch (error) {
+        console.error('The default provider failed to start:', error);
+        setProviderNotice({
+          title: 'ui.provider.unavailable',
+          message: error instanceof Error ? error.message : String(error),
+        });
+        return null;
+      }
+    }
+
+    init().catch((error) => {
+      console.error(error);
+      setLoadError(error instanceof Error ? error.message : String(error));
+    });
+
+    return unsubscribe;
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // Only run once on mount - registry and gameStore are stable
 
+  // Blueprint hot reload: the dev server reports changed JSON files under public/
+  const [, setBlueprintVersion] = useState(0);
+  useEffect(() => {
+    const hot = import.meta.hot;
+    if (!hot) return;
+
+    const handleChange = ({ path }: { path: string }) => {
+      registry
+        .reloadBlueprint(path)
+        .then((change) => {
+          if (change) setBlueprintVersion((version) => version + 1);
+        })
+        .catch((error) => console.error(`Failed to reload ${path}:`, error));
+    };
+
+    hot.on('blueprints:changed', handleChange);
+    return () => hot.off('blueprints:changed', handleChange);
+  }, [registry]);
+
   const handleApiKeySubmit = async (key: string) => {
     setApiKeyError(null);
     player2Service.setApiKey(key);
@@ -58,55 +151,154 @@ export function App() {
     }
   };
 
+  if (loadError) {
+    return (
+      <div className="flex items-center justify-center min-h-screen vn-screen p-8">
+        <pre
+          className="vn-box p-6 max-w-4xl w-full overflow-auto text-sm whitespace-pre-wrap"
+          style={{ color: 'var(--color-error)' }}
+        >
+          {loadError}
+        </pre>
+      </div>
+    );
+  }
+
   if (!loaded) {
+    const percent =
+      loadProgress && loadProgress.total > 0
+        ? Math.round((loadProgress.loaded / loadProgress.total) * 100)
+        : 0;
+
     return (
-      <div className="flex items-center justify-center min-h-screen vn-screen">
+      <div className="flex flex-col items-center justify-center gap-4 min-h-screen vn-screen">
         <div className="vn-text text-2xl" style={{ color: 'var(--color-text)' }}>
           Loading...
         </div>
+        <div
+          className="vn-box w-80 h-3 overflow-hidden"
+          role="progressbar"
+          aria-valuenow={percent}
+          aria-valuemin={0}
+          aria-valuemax={100}
+        >
+          <div
+            className="h-full transition-all duration-200"
+            style={{ width: `${percent}%`, backgroundColor: 'var(--color-primary)' }}
+          />
+        </div>
       </div>
     );
   }
 
-  const handleRouteSelect = (routeId: string) => {
-    const route = registry.getRoute(routeId);
-    const firstChapter = route.starting_chapter;
-    const chapter = registry.getChapter(firstChapter);
-    const firstScene = chapter.scenes[0];
+  const handleRouteSelect = async (routeId: string) => {
+    const { route, chapter, scene } = progression.start(routeId, useGameStore.getState());
+    await registry.loadChapter(chapter);
 
-    gameStore.setCurrentScene(routeId, firstChapter, firstScene);
+    gameStore.setCurrentScene(route, chapter, scene);
     gameStore.save(); // Save progress after route selection
     setScreen('character-intro');
   };
 
-  const handleChapterContinue = async () => {
-    // Check authentication before entering gameplay
-    const hasValidAuth = await player2Service.healthCheck();
+  /** Check the provider can be reached before entering gameplay, asking for a key if needed */
+  const checkProvider = async (): Promise<boolean> => {
+    if (!provider) {
+      setProviderNotice({ title: 'ui.provider.unavailable' });
+      return false;
+    }
+
+    const ready = await provider.isReady().catch((error) => {
+      console.error(error);
+      return false;
+    });
 
-    if (!hasValidAuth) {
-      // If cookie auth failed and no API key, show modal
-      if (!player2Service.hasApiKey()) {
+    if (!ready) {
+      if (provider instanceof Player2Provider) {
+        // Signed out: cookie auth failed and there is no working API key, so ask for one
         setShowApiKeyModal(true);
-        return;
+      } else {
+        // Other backends are configured in settings, where a key wouldn't help
+        setProviderNotice({ title: 'ui.provider.not_ready', message: provider.name });
       }
-      // If we have API key but health check still failed, show modal to re-enter
-      setShowApiKeyModal(true);
-      return;
     }
+    return ready;
+  };
+
+  const handleChapterContinue = async () => {
+    if (!(await checkProvider())) return;
 
     gameStore.save(); // Save progress when entering scene
     setScreen('scene');
   };
 
-  const handleContinue = () => {
+  const handleOpenProviderSettings = () => {
+    setProviderNotice(null);
+    setScreen('menu');
+    setIsSettingsOpen(true);
+  };
+
+  const applyProgression = async (step: ProgressionStep) => {
+    if (step.type === 'route_end') {
+      gameStore.completeRoute(step.route.id);
+      routeRequirements.unlockSatisfied(useGameStore);
+      gameStore.setCurrentScene('', '', '');
+      gameStore.save();
+
+      setEndedRoute(step.route.id);
+      setScreen(step.route.ending ? 'ending' : 'route');
+      return;
+    }
+
+    const { route, chapter, scene } = step.position;
+    await registry.loadChapter(chapter);
+    await registry.ensureScene(scene);
+
+    gameStore.setCurrentScene(route, chapter, scene);
+    gameStore.save(); // Save progress at every scene boundary
+
+    if (step.type === 'chapter') {
+      setScreen('chapter');
+    } else {
+      setSceneKey((key) => key + 1);
+    }
+  };
+
+  const handleSceneFinished = (update: SceneUpdate) => {
+    const { current_route, current_chapter, current_scene } = useGameStore.getState();
+    const position = { route: current_route, chapter: current_chapter, scene: current_scene };
+
+    const advance = async () =>
+      applyProgression(
+        update.type === 'scene_transition'
+          ? progression.transitionTo(position, update.next_scene!)
+          : progression.afterScene(position, useGameStore.getState())
+      );
+
+    advance().catch((error) => {
+      console.error(error);
+      setLoadError(error instanceof Error ? error.message : String(error));
+    });
+  };
+
+  const handleNewGame = () => {
+    const game = registry.getGame();
+    gameStore.newGame(game, registry.getCharacter(game.player_character_id).inventory);
+    setScreen('route');
+  };
+
+  const handleContinue = async () => {
     // Load saved game state
     gameStore.load();
 
+    const { current_chapter, current_scene } = useGameStore.getState();
+    if (current_chapter) await registry.loadChapter(current_chapter);
+    if (current_scene) await registry.ensureScene(current_scene);
+
     // Determine what screen to show based on saved state
-    if (!gameStore.current_scene) {
+    if (!current_scene) {
       // No saved scene, start from beginning
       setScreen('route');
-    } else {
+    } else if (await checkProvider()) {
       // Resume from saved scene
       setScreen('scene');
     }
@@ -114,25 +306,50 @@ export function App() {
 
   return (
     <RegistryContext.Provider value={registry}>
-      <ThemeProvider theme={registry.getTheme(registry.getGame().theme)}>
-        {screen === 'menu' && (
-          <MainMenu onStart={() => setScreen('route')} onContinue={handleContinue} />
-        )}
-        {screen === 'route' && <RouteSelection onSelect={handleRouteSelect} />}
-        {screen === 'character-intro' && (
-          <CharacterIntro
-            characterId={registry.getGame().player_character_id}
-            onContinue={() => setScreen('chapter')}
-          />
-        )}
-        {screen === 'chapter' && (
-          <ChapterIntro chapterId={gameStore.current_chapter} onContinue={handleChapterContinue} />
-        )}
-        {screen === 'scene' && <SceneView />}
-
-        {/* Auth modal overlays the current screen */}
-        {showApiKeyModal && <ApiKeyModal onSubmit={handleApiKeySubmit} error={apiKeyError} />}
-      </ThemeProvider>
+      <ProviderContext.Provider value={provider}>
+        <ThemeProvider
+          themes={registry.getAvailableThemes()}
+          defaultThemeId={registry.getGame().theme}
+        >
+          {screen === 'menu' && (
+            <MainMenu
+              onStart={handleNewGame}
+              onContinue={handleContinue}
+              isSettingsOpen={isSettingsOpen}
+              onSettingsOpenChange={setIsSettingsOpen}
+            />
+          )}
+          {screen === 'route' && <RouteSelection onSelect={handleRouteSelect} />}
+          {screen === 'character-intro' && (
+            <CharacterIntro
+              characterId={registry.getGame().player_character_id}
+              onContinue={() => setScreen('chapter')}
+            />
+          )}
+          {screen === 'chapter' && (
+            <ChapterIntro
+              chapterId={gameStore.current_chapter}
+              onContinue={handleChapterContinue}
+            />
+          )}
+          {screen === 'scene' && <SceneView key={sceneKey} onSceneFinished={handleSceneFinished} />}
+          {screen === 'ending' && endedRoute && (
+            <RouteEnding routeId={endedRoute} onContinue={() => setScreen('route')} />
+          )}
+
+          {providerNotice && (
+            <ErrorNotice
+              title={providerNotice.title}
+              message={providerNotice.message}
+              onOpenSettings={handleOpenProviderSettings}
+              onDismiss={() => setProviderNotice(null)}
+            />
+          )}
+
+          {/* Auth modal overlays the current screen */}
+          {showApiKeyModal && <ApiKeyModal onSubmit={handleApiKeySubmit} error={apiKeyError} />}
+        </ThemeProvider>
+      </ProviderContext.Provider>
     </RegistryContext.Provider>
   );
 }
@@ -4,9 +4,11 @@ interface CharacterSpriteProps {
   character: CharacterModel;
   isActive: boolean;
   position: 'left' | 'center' | 'right';
+  /** Makes the sprite clickable, e.g. to address the character */
+  onClick?: () => void;
 }
 
-export function CharacterSprite({ character, isActive, position }: CharacterSpriteProps) {
+export function CharacterSprite({ character, isActive, position, onClick }: CharacterSpriteProps) {
   const positionClasses = {
     left: 'items-end justify-start',
     center: 'items-end justify-center',
@@ -20,9 +22,12 @@ export function CharacterSprite({ character, isActive, position }: CharacterSpri
       <img
         src={imageUri}
         alt={character.blueprint.name}
+        title={onClick ? character.blueprint.name : undefined}
+        onClick={onClick}
         className={`
           h-[500px] w-auto object-contain transition-all duration-300 pointer-events-auto
           ${isActive ? 'opacity-100 scale-110' : 'opacity-60 scale-100'}
+          ${onClick ? 'cursor-pointer' : ''}
         `}
         style={{
           filter: isActive
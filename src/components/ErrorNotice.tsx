@@ -0,0 +1,62 @@
+import { useUITranslation } from '../hooks/useUITranslation';
+
+interface ErrorNoticeProps {
+  /** Locale key of what went wrong, shown above the error's own message */
+  title: string;
+  message?: string;
+  onRetry?: () => void;
+  /** Shown for problems fixed in the settings, e.g. an AI backend that doesn't work */
+  onOpenSettings?: () => void;
+  onDismiss?: () => void;
+}
+
+/**
+ * Banner for a failure the player can recover from, e.g. an AI backend that didn't answer.
+ */
+export function ErrorNotice({
+  title,
+  message,
+  onRetry,
+  onOpenSettings,
+  onDismiss,
+}: ErrorNoticeProps) {
+  const { t } = useUITranslation();
+
+  return (
+    <div
+      className="fixed top-4 left-1/2 -translate-x-1/2 z-50 vn-box p-4 max-w-lg w-[calc(100%-2rem)] flex flex-col gap-3"
+      role="alert"
+    >
+      <div className="vn-text text-sm" style={{ color: 'var(--color-error)' }}>
+        {t(title)}
+      </div>
+      {message && (
+        <div className="vn-text text-xs break-words" style={{ color: 'var(--color-text)' }}>
+          {message}
+        </div>
+      )}
+      {(onRetry || onOpenSettings || onDismiss) && (
+        <div className="flex gap-2">
+          {onRetry && (
+            <button onClick={onRetry} className="vn-button text-xs py-1 px-3">
+              {t('ui.retry')}
+            </button>
+          )}
+          {onOpenSettings && (
+            <button
+              onClick={onOpenSettings}
+              className="vn-button vn-button-accent text-xs py-1 px-3"
+            >
+              {t('ui.settings')}
+            </button>
+          )}
+          {onDismiss && (
+            <button onClick={onDismiss} className="vn-button vn-button-secondary text-xs py-1 px-3">
+              {t('ui.close')}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,13 +2,16 @@ import { useState, useEffect, useRef } from 'react';
 import { useUITranslation } from '../hooks/useUITranslation';
 import { useGameStore } from '../stores/gameStore';
 import { useRegistry } from '../contexts/RegistryContext';
+import { chapterSceneIds } from '../utils/branching';
+import { InventoryPanel } from './InventoryPanel';
 
 export function HamburgerMenu() {
   const [isOpen, setIsOpen] = useState(false);
+  const [showInventory, setShowInventory] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
   const { t } = useUITranslation();
   const registry = useRegistry();
-  const { dossier, current_scene, current_chapter, current_route } = useGameStore();
+  const { dossier, inventory, current_scene, current_chapter, current_route } = useGameStore();
 
   // Get scene and chapter numbers
   let sceneNumber = 0;
@@ -21,7 +24,7 @@ export function HamburgerMenu() {
     }
     if (current_chapter && current_scene) {
       const chapter = registry.getChapter(current_chapter);
-      sceneNumber = chapter.scenes.indexOf(current_scene) + 1;
+      sceneNumber = chapterSceneIds(chapter).indexOf(current_scene) + 1;
     }
   } catch (error) {
     // If scene/chapter not found, leave numbers as 0
@@ -140,6 +143,13 @@ export function HamburgerMenu() {
             )}
           </div>
 
+          <button
+            onClick={() => setShowInventory(true)}
+            className="vn-button vn-button-accent text-sm py-2 px-4 w-full mb-6"
+          >
+            🎒 {t('ui.items.title')} ({inventory.length})
+          </button>
+
           {/* Current Location */}
           {(chapterNumber > 0 || sceneNumber > 0) && (
             <div className="pt-4 border-t" style={{ borderColor: 'var(--color-border)' }}>
@@ -167,6 +177,8 @@ export function HamburgerMenu() {
           )}
         </div>
       )}
+
+      {showInventory && <InventoryPanel onClose={() => setShowInventory(false)} />}
     </div>
   );
 }
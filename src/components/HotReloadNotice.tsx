@@ -0,0 +1,32 @@
+import { BlueprintChange } from '../core/BlueprintRegistry';
+
+interface HotReloadNoticeProps {
+  change: BlueprintChange;
+  onRefresh: () => void;
+  onRestart: () => void;
+  onDismiss: () => void;
+}
+
+/**
+ * Development-only banner shown in a scene after a blueprint was hot reloaded.
+ */
+export function HotReloadNotice({ change, onRefresh, onRestart, onDismiss }: HotReloadNoticeProps) {
+  return (
+    <div className="absolute top-4 left-4 z-40 vn-box p-4 max-w-sm flex flex-col gap-3">
+      <div className="vn-text text-sm" style={{ color: 'var(--color-text)' }}>
+        Reloaded <code>{change.path.replace(/^blueprints\//, '')}</code>
+      </div>
+      <div className="flex gap-2">
+        <button onClick={onRefresh} className="vn-button text-xs py-1 px-3">
+          Refresh prompt
+        </button>
+        <button onClick={onRestart} className="vn-button vn-button-secondary text-xs py-1 px-3">
+          Restart scene
+        </button>
+        <button onClick={onDismiss} className="vn-button vn-button-accent text-xs py-1 px-3">
+          ✕
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { useState, useEffect } from 'react';
+import { useUITranslation } from '../hooks/useUITranslation';
+import { useGameStore } from '../stores/gameStore';
+import { useRegistry } from '../contexts/RegistryContext';
+
+interface InventoryPanelProps {
+  onClose: () => void;
+}
+
+/**
+ * Full-screen inventory: the player's items with their art, description and where they came
+ * from.
+ */
+export function InventoryPanel({ onClose }: InventoryPanelProps) {
+  const { t } = useUITranslation();
+  const registry = useRegistry();
+  const { inventory, acquired_items } = useGameStore();
+  const [selectedId, setSelectedId] = useState(inventory[0]?.id ?? null);
+
+  useEffect(() => {
+    const handleKeyPress = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+
+    window.addEventListener('keydown', handleKeyPress);
+    return () => window.removeEventListener('keydown', handleKeyPress);
+  }, [onClose]);
+
+  const selected = inventory.find((item) => item.id === selectedId) ?? inventory[0];
+  // The most recent acquisition wins when an item changed hands more than once
+  const acquisition = selected
+    ? [...acquired_items].reverse().find((a) => a.item_id === selected.id)
+    : undefined;
+
+  // In lazy mode the scene or character may not be loaded anymore; fall back to the id
+  const sceneTitle = (id: string) => {
+    try {
+      return registry.getScene(id).title;
+    } catch {
+      return id;
+    }
+  };
+  const characterName = (id: string) =>
+    registry.hasCharacter(id) ? registry.getCharacter(id).name : id;
+
+  return (
+    <div
+      className="fixed inset-0 vn-overlay z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="vn-box p-6 md:p-8 max-w-3xl w-full max-h-[80vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2
+          className="vn-heading neon-text text-xl md:text-2xl mb-8"
+          style={{ color: 'var(--color-primary)' }}
+        >
+          🎒 {t('ui.items.title')}
+        </h2>
+
+        {inventory.length === 0 ? (
+          <p className="vn-text text-lg italic opacity-50" style={{ color: 'var(--color-text)' }}>
+            {t('ui.items.no_items')}
+          </p>
+        ) : (
+          <div className="flex flex-col md:flex-row gap-6">
+            <ul className="flex md:flex-col gap-2 md:w-48 overflow-x-auto">
+              {inventory.map((item) => (
+                <li key={item.id}>
+                  <button
+                    onClick={() => setSelectedId(item.id)}
+                    className="flex items-center gap-3 p-2 w-full text-left border-2"
+                    style={{
+                      borderColor:
+                        item.id === selected?.id ? 'var(--color-primary)' : 'var(--color-border)',
+                    }}
+                  >
+                    {item.image.uri && (
+                      <img
+                        src={item.image.uri}
+                        alt={item.name}
+                        className="w-10 h-10 object-contain"
+                      />
+                    )}
+                    <span className="vn-text text-base" style={{ color: 'var(--color-text)' }}>
+                      {item.name}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {selected && (
+              <div className="flex-1 flex flex-col gap-4">
+                {selected.image.uri && (
+                  <img
+                    src={selected.image.uri}
+                    alt={selected.name}
+                    className="w-full max-h-64 object-contain"
+                  />
+                )}
+                <h3
+                  className="vn-heading text-base md:text-lg"
+                  style={{ color: 'var(--color-secondary)' }}
+                >
+                  {selected.name}
+                </h3>
+                <p className="vn-text text-lg" style={{ color: 'var(--color-text)' }}>
+                  {selected.description}
+                </p>
+
+                <div
+                  className="vn-text text-sm space-y-1 pt-4 border-t"
+                  style={{ color: 'var(--color-text)', borderColor: 'var(--color-border)' }}
+                >
+                  {acquisition ? (
+                    <>
+                      <div className="flex items-start gap-2">
+                        <span style={{ color: 'var(--color-primary)' }}>
+                          {t('ui.items.scene')}:
+                        </span>
+                        <span>{sceneTitle(acquisition.scene_id)}</span>
+                      </div>
+                      {acquisition.character_id && (
+                        <div className="flex items-start gap-2">
+                          <span style={{ color: 'var(--color-primary)' }}>
+                            {t('ui.items.from')}:
+                          </span>
+                          <span>{characterName(acquisition.character_id)}</span>
+                        </div>
+                      )}
+                    </>
+                  ) : (
+                    <span className="italic opacity-70">{t('ui.items.starting_item')}</span>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <button onClick={onClose} className="vn-button vn-button-secondary w-full mt-8">
+          {t('ui.close')}
+        </button>
+      </div>
+    </div>
+  );
+}
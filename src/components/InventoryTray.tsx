@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { useUITranslation } from '../hooks/useUITranslation';
+import { useGameStore } from '../stores/gameStore';
+import { ItemAction } from '../types/blueprints';
+
+interface InventoryTrayProps {
+  onAction: (action: ItemAction, itemId: string) => void;
+}
+
+const ACTIONS: ItemAction[] = ['show', 'give', 'use'];
+
+/**
+ * The player's items, shown next to the text input. Picking an item, then an action, sends it
+ * to the NPC as the player's turn.
+ */
+export function InventoryTray({ onAction }: InventoryTrayProps) {
+  const { t } = useUITranslation();
+  const { inventory } = useGameStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  if (inventory.length === 0) return null;
+
+  const selected = inventory.find((item) => item.id === selectedId);
+
+  const handleAction = (action: ItemAction) => {
+    if (!selected) return;
+    onAction(action, selected.id);
+    setSelectedId(null);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="vn-button vn-button-secondary h-full"
+        aria-expanded={isOpen}
+      >
+        🎒 {t('ui.items.title')}
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full left-0 mb-3 vn-box p-4 w-80 max-h-80 overflow-y-auto flex flex-col gap-2">
+          {inventory.map((item) => (
+            <button
+              key={item.id}
+              onClick={() => setSelectedId(item.id === selectedId ? null : item.id)}
+              className="flex items-center gap-3 p-2 text-left border-2"
+              style={{
+                borderColor:
+                  item.id === selectedId ? 'var(--color-primary)' : 'var(--color-secondary)',
+                backgroundColor: 'var(--color-background)',
+              }}
+            >
+              {item.image.uri && (
+                <img src={item.image.uri} alt={item.name} className="w-10 h-10 object-contain" />
+              )}
+              <span className="vn-text text-base" style={{ color: 'var(--color-text)' }}>
+                {item.name}
+              </span>
+            </button>
+          ))}
+
+          {selected && (
+            <div className="flex gap-2 pt-2">
+              {ACTIONS.map((action) => (
+                <button
+                  key={action}
+                  onClick={() => handleAction(action)}
+                  className="vn-button vn-button-accent text-xs py-1 px-3 flex-1"
+                >
+                  {t(`ui.items.${action}`)}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
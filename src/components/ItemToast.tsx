@@ -0,0 +1,97 @@
+import { useState, useEffect, useRef } from 'react';
+import { useUITranslation } from '../hooks/useUITranslation';
+import { useGameStore } from '../stores/gameStore';
+import { useRegistry } from '../contexts/RegistryContext';
+import { ItemBlueprint } from '../types/blueprints';
+
+const TOAST_DURATION_MS = 4000;
+
+interface Toast {
+  key: number;
+  item: ItemBlueprint;
+  /** Name of the character who handed it over, if any */
+  from?: string;
+}
+
+/**
+ * Briefly announces every item the player receives while it is mounted, whether handed over
+ * by an NPC or awarded by a goal. Items that arrive together are shown together, each leaving
+ * after its own delay.
+ */
+export function ItemToast() {
+  const { t } = useUITranslation();
+  const registry = useRegistry();
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const nextKey = useRef(0);
+
+  const dismiss = (key: number) => setToasts((prev) => prev.filter((toast) => toast.key !== key));
+
+  useEffect(() => {
+    const timeouts = new Set<ReturnType<typeof setTimeout>>();
+
+    const unsubscribe = useGameStore.subscribe((state, prev) => {
+      const added = state.acquired_items.slice(prev.acquired_items.length);
+      const arrived: Toast[] = [];
+
+      for (const acquisition of added) {
+        const item = state.inventory.find((i) => i.id === acquisition.item_id);
+        if (!item) continue;
+
+        const from =
+          acquisition.character_id && registry.hasCharacter(acquisition.character_id)
+            ? registry.getCharacter(acquisition.character_id).name
+            : undefined;
+        arrived.push({ key: nextKey.current++, item, from });
+      }
+      if (arrived.length === 0) return;
+
+      setToasts((prev) => [...prev, ...arrived]);
+      for (const { key } of arrived) {
+        const timeout = setTimeout(() => {
+          timeouts.delete(timeout);
+          dismiss(key);
+        }, TOAST_DURATION_MS);
+        timeouts.add(timeout);
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      timeouts.forEach(clearTimeout);
+    };
+  }, [registry]);
+
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="absolute top-20 right-4 z-40 max-w-xs flex flex-col gap-2" role="status">
+      {toasts.map((toast) => (
+        <div
+          key={toast.key}
+          className="vn-box p-4 flex items-center gap-3 cursor-pointer"
+          onClick={() => dismiss(toast.key)}
+        >
+          {toast.item.image.uri && (
+            <img
+              src={toast.item.image.uri}
+              alt={toast.item.name}
+              className="w-12 h-12 object-contain"
+            />
+          )}
+          <div className="vn-text text-sm" style={{ color: 'var(--color-text)' }}>
+            {/* Handed over by someone, or found/awarded on the player's own */}
+            <div style={{ color: 'var(--color-accent)' }}>
+              {t(toast.from ? 'ui.items.received' : 'ui.items.acquired')}
+            </div>
+            <div className="font-semibold">{toast.item.name}</div>
+            {toast.from && (
+              <div className="opacity-70">
+                {t('ui.items.from')}: {toast.from}
+              </div>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
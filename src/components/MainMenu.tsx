@@ -1,18 +1,26 @@
-import { useState } from 'react';
 import { useUITranslation } from '../hooks/useUITranslation';
 import { useRegistry } from '../contexts/RegistryContext';
 import { LanguageSelector } from './LanguageSelector';
+import { ThemeSelector } from './ThemeSelector';
+import { ProviderSelector } from './ProviderSelector';
 
 interface MainMenuProps {
   onStart: () => void;
   onContinue: () => void;
+  /** Controlled by the app so it can open the settings, e.g. after the AI backend failed */
+  isSettingsOpen: boolean;
+  onSettingsOpenChange: (open: boolean) => void;
 }
 
-export function MainMenu({ onStart, onContinue }: MainMenuProps) {
+export function MainMenu({
+  onStart,
+  onContinue,
+  isSettingsOpen,
+  onSettingsOpenChange,
+}: MainMenuProps) {
   const { t } = useUITranslation();
   const game = useRegistry().getGame();
   const hasSave = !!localStorage.getItem('vn_save');
-  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
 
   return (
     <div className="vn-screen fixed inset-0 flex items-center justify-center">
@@ -54,7 +62,7 @@ export function MainMenu({ onStart, onContinue }: MainMenuProps) {
           )}
 
           <button
-            onClick={() => setIsSettingsOpen(true)}
+            onClick={() => onSettingsOpenChange(true)}
             className="vn-button vn-button-accent w-80"
           >
             {t('ui.settings')}
@@ -70,9 +78,12 @@ export function MainMenu({ onStart, onContinue }: MainMenuProps) {
       {isSettingsOpen && (
         <div
           className="fixed inset-0 vn-overlay z-50 flex items-center justify-center p-4"
-          onClick={() => setIsSettingsOpen(false)}
+          onClick={() => onSettingsOpenChange(false)}
         >
-          <div className="vn-box p-6 md:p-8 max-w-xl w-full" onClick={(e) => e.stopPropagation()}>
+          <div
+            className="vn-box p-6 md:p-8 max-w-xl w-full max-h-[90vh] overflow-y-auto"
+            onClick={(e) => e.stopPropagation()}
+          >
             <h2
               className="vn-heading text-2xl md:text-3xl mb-8"
               style={{ color: 'var(--color-primary)' }}
@@ -90,8 +101,28 @@ export function MainMenu({ onStart, onContinue }: MainMenuProps) {
               <LanguageSelector />
             </div>
 
+            <div className="mb-8">
+              <h3
+                className="vn-heading text-base md:text-lg mb-4"
+                style={{ color: 'var(--color-secondary)' }}
+              >
+                🎨 {t('ui.theme')}
+              </h3>
+              <ThemeSelector />
+            </div>
+
+            <div className="mb-8">
+              <h3
+                className="vn-heading text-base md:text-lg mb-4"
+                style={{ color: 'var(--color-secondary)' }}
+              >
+                🤖 {t('ui.provider.title')}
+              </h3>
+              <ProviderSelector />
+            </div>
+
             <button
-              onClick={() => setIsSettingsOpen(false)}
+              onClick={() => onSettingsOpenChange(false)}
               className="vn-button vn-button-secondary w-full mt-4"
             >
               {t('ui.close')}
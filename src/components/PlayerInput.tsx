@@ -1,13 +1,27 @@
 import { useState, useRef, useEffect } from 'react';
 import { useUITranslation } from '../hooks/useUITranslation';
+import { ItemAction } from '../types/blueprints';
+import { InventoryTray } from './InventoryTray';
 
 interface PlayerInputProps {
   enabled: boolean;
   onSubmit: (text: string) => void;
+  /** Enables the inventory tray; whatever was typed goes along with the item action */
+  onItemAction?: (action: ItemAction, itemId: string, text: string) => void;
+  /** Name of the character the player picked to talk to, shown until cleared */
+  addresseeName?: string;
+  onClearAddressee?: () => void;
   placeholder?: string;
 }
 
-export function PlayerInput({ enabled, onSubmit, placeholder }: PlayerInputProps) {
+export function PlayerInput({
+  enabled,
+  onSubmit,
+  onItemAction,
+  addresseeName,
+  onClearAddressee,
+  placeholder,
+}: PlayerInputProps) {
   const { t } = useUITranslation();
   const [value, setValue] = useState('');
   const inputRef = useRef<HTMLInputElement>(null);
@@ -26,6 +40,13 @@ export function PlayerInput({ enabled, onSubmit, placeholder }: PlayerInputProps
     }
   };
 
+  const handleItemAction = (action: ItemAction, itemId: string) => {
+    if (enabled && onItemAction) {
+      onItemAction(action, itemId, value.trim());
+      setValue('');
+    }
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') handleSubmit();
   };
@@ -35,6 +56,16 @@ export function PlayerInput({ enabled, onSubmit, placeholder }: PlayerInputProps
   return (
     <div className="absolute bottom-32 left-0 right-0 px-4 md:px-8 z-30 pointer-events-auto">
       <div className="max-w-4xl mx-auto flex gap-3">
+        {onItemAction && <InventoryTray onAction={handleItemAction} />}
+        {addresseeName && (
+          <button
+            onClick={onClearAddressee}
+            className="vn-button vn-button-accent text-sm whitespace-nowrap"
+            title={t('ui.talking_to')}
+          >
+            → {addresseeName} ✕
+          </button>
+        )}
         <input
           ref={inputRef}
           type="text"
@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { useUITranslation } from '../hooks/useUITranslation';
+import { createProvider, loadProviderSettings, saveProviderSettings } from '../services/providers';
+import { LLMCapabilities, ProviderKind, ProviderSettings } from '../types/llm';
+
+const KINDS: ProviderKind[] = ['player2', 'openai', 'scripted'];
+const CAPABILITIES: Array<{ key: keyof LLMCapabilities; label: string }> = [
+  { key: 'tools', label: 'ui.provider.tools' },
+  { key: 'streaming', label: 'ui.provider.streaming' },
+  { key: 'jsonMode', label: 'ui.provider.json_mode' },
+];
+
+/**
+ * Picks the AI backend and its connection details. Changes apply on reload, since the
+ * provider is created once at startup; settings the provider can't be created from (a missing
+ * server URL, a script that doesn't load) are refused before anything is saved.
+ */
+export function ProviderSelector() {
+  const { t } = useUITranslation();
+  const [settings, setSettings] = useState<ProviderSettings>(loadProviderSettings);
+  const [error, setError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  const update = (patch: Partial<ProviderSettings>) => {
+    setSettings({ ...settings, ...patch });
+    setError(null);
+  };
+  const capability = (key: keyof LLMCapabilities) => settings.capabilities?.[key] ?? true;
+
+  const apply = async (next: ProviderSettings | null) => {
+    if (next) {
+      setChecking(true);
+      try {
+        await createProvider(next);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : String(e));
+        return;
+      } finally {
+        setChecking(false);
+      }
+    }
+    saveProviderSettings(next);
+    window.location.reload();
+  };
+
+  const field = (key: 'baseUrl' | 'model' | 'apiKey' | 'scriptUrl', label: string) => (
+    <label className="block">
+      <span className="vn-text text-sm mb-1 block" style={{ color: 'var(--color-secondary)' }}>
+        {t(label)}
+      </span>
+      <input
+        type={key === 'apiKey' ? 'password' : 'text'}
+        value={settings[key] ?? ''}
+        onChange={(e) => update({ [key]: e.target.value.trim() || undefined })}
+        className="vn-input w-full"
+      />
+    </label>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        {KINDS.map((kind) => (
+          <button
+            key={kind}
+            onClick={() => update({ kind })}
+            className={`vn-button text-xs py-2 px-3 flex-1 ${kind === settings.kind ? '' : 'vn-button-secondary'}`}
+          >
+            {t(`ui.provider.${kind}`)}
+          </button>
+        ))}
+      </div>
+
+      {settings.kind === 'openai' && (
+        <>
+          {field('baseUrl', 'ui.provider.base_url')}
+          {field('model', 'ui.provider.model')}
+          {field('apiKey', 'ui.provider.api_key')}
+          <div className="flex flex-wrap gap-4">
+            {CAPABILITIES.map(({ key, label }) => (
+              <label
+                key={key}
+                className="vn-text text-sm flex items-center gap-2"
+                style={{ color: 'var(--color-text)' }}
+              >
+                <input
+                  type="checkbox"
+                  checked={capability(key)}
+                  onChange={(e) =>
+                    update({ capabilities: { ...settings.capabilities, [key]: e.target.checked } })
+                  }
+                />
+                {t(label)}
+              </label>
+            ))}
+          </div>
+        </>
+      )}
+
+      {settings.kind === 'scripted' && field('scriptUrl', 'ui.provider.script_url')}
+
+      {error && (
+        <p className="vn-text text-sm" style={{ color: 'var(--color-error)' }} role="alert">
+          {t('ui.provider.invalid')}: {error}
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => apply(settings)}
+          disabled={checking}
+          className="vn-button text-sm py-2 px-4 flex-1"
+        >
+          {t('ui.provider.apply')}
+        </button>
+        <button
+          onClick={() => apply(null)}
+          className="vn-button vn-button-secondary text-sm py-2 px-4 flex-1"
+        >
+          {t('ui.provider.reset')}
+        </button>
+      </div>
+    </div>
+  );
+}
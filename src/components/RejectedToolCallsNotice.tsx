@@ -0,0 +1,32 @@
+import { ToolCallRejection } from '../types/tools';
+
+interface RejectedToolCallsNoticeProps {
+  rejections: ToolCallRejection[];
+  onDismiss: () => void;
+}
+
+/**
+ * Development-only banner listing the tool calls the AI made with invalid arguments during the
+ * latest turn. The AI was sent the errors and may have retried.
+ */
+export function RejectedToolCallsNotice({ rejections, onDismiss }: RejectedToolCallsNoticeProps) {
+  return (
+    <div className="absolute bottom-4 left-4 z-40 vn-box p-4 max-w-md flex flex-col gap-2">
+      <div className="flex items-center justify-between gap-3">
+        <span className="vn-text text-sm font-bold" style={{ color: 'var(--color-text)' }}>
+          Rejected tool calls
+        </span>
+        <button onClick={onDismiss} className="vn-button vn-button-accent text-xs py-1 px-3">
+          ✕
+        </button>
+      </div>
+      <ul className="vn-text text-xs flex flex-col gap-1" style={{ color: 'var(--color-text)' }}>
+        {rejections.map((rejection, i) => (
+          <li key={i}>
+            <code>{rejection.tool}</code>: {rejection.errors.join('; ')}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { useEffect } from 'react';
+import { useUITranslation } from '../hooks/useUITranslation';
+import { useRegistry } from '../contexts/RegistryContext';
+
+interface RouteEndingProps {
+  routeId: string;
+  onContinue: () => void;
+}
+
+export function RouteEnding({ routeId, onContinue }: RouteEndingProps) {
+  const { t } = useUITranslation();
+  const route = useRegistry().getRoute(routeId);
+  const ending = route.ending!;
+
+  useEffect(() => {
+    const handleKeyPress = (e: KeyboardEvent) => {
+      if (e.key === 'Enter' || e.key === ' ') {
+        e.preventDefault();
+        onContinue();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyPress);
+    return () => window.removeEventListener('keydown', handleKeyPress);
+  }, [onContinue]);
+
+  return (
+    <div className="vn-screen fixed inset-0 w-full h-full">
+      {ending.image?.uri && (
+        <img
+          src={ending.image.uri}
+          className="absolute inset-0 w-full h-full object-cover"
+          alt={ending.title}
+        />
+      )}
+      <div className="absolute inset-0 bg-black bg-opacity-70" />
+
+      <div className="absolute inset-0 flex items-center justify-center p-8">
+        <div className="flex flex-col items-center gap-8 max-w-3xl w-full text-center">
+          <div className="vn-box p-8 w-full">
+            <h2
+              className="vn-heading neon-text text-3xl md:text-4xl mb-8"
+              style={{ color: 'var(--color-primary)' }}
+            >
+              {ending.title}
+            </h2>
+            <p className="vn-text text-2xl leading-relaxed" style={{ color: 'var(--color-text)' }}>
+              {ending.description}
+            </p>
+          </div>
+
+          <div
+            className="vn-text text-xl animate-pulse cursor-pointer"
+            onClick={onContinue}
+            style={{ color: 'var(--color-accent)' }}
+          >
+            ▼ {t('ui.press_enter')} ▼
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,7 @@
+import { useMemo } from 'react';
 import { useRegistry } from '../contexts/RegistryContext';
+import { RouteRequirements, UnmetRequirement } from '../core/RouteRequirements';
+import { useUITranslation } from '../hooks/useUITranslation';
 import { useGameStore } from '../stores/gameStore';
 
 interface RouteSelectionProps {
@@ -7,8 +10,31 @@ interface RouteSelectionProps {
 
 export function RouteSelection({ onSelect }: RouteSelectionProps) {
   const registry = useRegistry();
+  const { t } = useUITranslation();
   const game = registry.getGame();
-  const { unlocked_routes } = useGameStore();
+  const gameState = useGameStore();
+  const requirements = useMemo(() => new RouteRequirements(registry), [registry]);
+
+  const describe = (requirement: UnmetRequirement) => {
+    switch (requirement.kind) {
+      case 'unlocked_route':
+        return `${t('ui.requirements.unlocked_route')}: ${registry.getRoute(requirement.route_id).title}`;
+      case 'completed_route':
+        return `${t('ui.requirements.completed_route')}: ${registry.getRoute(requirement.route_id).title}`;
+      case 'flag':
+        // Flag ids are for authors; without a hint the player only learns something is missing
+        return requirement.hint
+          ? `${t('ui.requirements.flag')}: ${requirement.hint}`
+          : t('ui.requirements.flag_unknown');
+      case 'affinity': {
+        // Characters of later chapters may not be loaded yet in lazy mode
+        const name =
+          registry.getAllCharacters().find((c) => c.id === requirement.character_id)?.name ??
+          requirement.character_id;
+        return `${t('ui.requirements.affinity')}: ${name} ${requirement.current}/${requirement.minimum}`;
+      }
+    }
+  };
 
   const routes = game.routes.map((id) => registry.getRoute(id));
 
@@ -25,7 +51,8 @@ export function RouteSelection({ onSelect }: RouteSelectionProps) {
 
         <div className="grid gap-6">
           {routes.map((route) => {
-            const isLocked = route.requirements && !unlocked_routes.includes(route.id);
+            const isLocked = !requirements.isAvailable(route.id, gameState);
+            const unmet = isLocked ? requirements.evaluate(route.id, gameState) : [];
 
             return (
               <button
@@ -50,6 +77,13 @@ export function RouteSelection({ onSelect }: RouteSelectionProps) {
                 <p className="vn-text text-lg" style={{ color: 'var(--color-text)' }}>
                   {route.description}
                 </p>
+                {unmet.length > 0 && (
+                  <ul className="vn-text text-base mt-3" style={{ color: 'var(--color-accent)' }}>
+                    {unmet.map((requirement, i) => (
+                      <li key={i}>✗ {describe(requirement)}</li>
+                    ))}
+                  </ul>
+                )}
               </button>
             );
           })}
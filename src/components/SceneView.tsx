@@ -1,21 +1,40 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useRegistry } from '../contexts/RegistryContext';
+import { useProvider } from '../contexts/ProviderContext';
 import { useGameStore } from '../stores/gameStore';
-import { GameEngine, SceneUpdate } from '../core/GameEngine';
+import { BlueprintChange } from '../core/BlueprintRegistry';
+import { GameEngine, PlayerTurn, SceneUpdate } from '../core/GameEngine';
+import { useUITranslation } from '../hooks/useUITranslation';
+import { ItemAction } from '../types/blueprints';
 import { CharacterModel } from '../types/models';
+import { ToolCallRejection } from '../types/tools';
 import { DialogBox } from './DialogBox';
 import { CharacterSprite } from './CharacterSprite';
 import { PlayerInput } from './PlayerInput';
 import { Typewriter } from './Typewriter';
 import { HamburgerMenu } from './HamburgerMenu';
 import { CharacterIntro } from './CharacterIntro';
+import { HotReloadNotice } from './HotReloadNotice';
+import { ItemToast } from './ItemToast';
+import { RejectedToolCallsNotice } from './RejectedToolCallsNotice';
+import { ErrorNotice } from './ErrorNotice';
+
+interface SceneViewProps {
+  /** Called with the `scene_transition` or `scene_ended` update once the scene is over */
+  onSceneFinished: (update: SceneUpdate) => void;
+}
 
-export function SceneView() {
+export function SceneView({ onSceneFinished }: SceneViewProps) {
   const registry = useRegistry();
+  const provider = useProvider();
   const gameStore = useGameStore();
+  const { t } = useUITranslation();
   const game = registry.getGame();
 
-  const [inputResolve, setInputResolve] = useState<((text: string) => void) | null>(null);
+  const [inputResolve, setInputResolve] = useState<((turn: PlayerTurn) => void) | null>(null);
+  const [playerTurn, setPlayerTurn] = useState<PlayerTurn | null>(null);
+  // In ensemble scenes, the NPC the player clicked to talk to
+  const [addressee, setAddressee] = useState<string | null>(null);
   const [continueResolve, setContinueResolve] = useState<(() => void) | null>(null);
 
   const playerInputEnabled = inputResolve !== null;
@@ -39,7 +58,26 @@ export function SceneView() {
 
   const [pendingCharacterIntro, setPendingCharacterIntro] = useState<string | null>(null);
 
-  const [engine] = useState(() => new GameEngine(registry, useGameStore, handleUpdate));
+  const [reloadChange, setReloadChange] = useState<BlueprintChange | null>(null);
+  // Tool calls rejected during the latest AI turn, shown on the dev server only
+  const [rejections, setRejections] = useState<ToolCallRejection[]>([]);
+  // Why the scene stopped, e.g. the provider failing mid-turn; the player can retry it
+  const [sceneError, setSceneError] = useState<string | null>(null);
+
+  const [engine, setEngine] = useState(
+    () => new GameEngine(registry, useGameStore, provider, handleUpdate)
+  );
+  // handleUpdate outlives the render that created the engine, so it reads the callback from here
+  const onSceneFinishedRef = useRef(onSceneFinished);
+  onSceneFinishedRef.current = onSceneFinished;
+
+  const runScene = useCallback((sceneEngine: GameEngine) => {
+    sceneEngine.startScene(useGameStore.getState().current_scene).catch((error) => {
+      console.error('Scene failed:', error);
+      setSceneState((prev) => ({ ...prev, isAIThinking: false }));
+      setSceneError(error instanceof Error ? error.message : String(error));
+    });
+  }, []);
 
   useEffect(() => {
     engine.setPlayerInputHandler((resolve) => setInputResolve(() => resolve));
@@ -60,13 +98,23 @@ export function SceneView() {
       // Show intro for first unintroduced NPC
       setPendingCharacterIntro(unintroducedNPCs[0]);
     } else {
-      engine.startScene(gameStore.current_scene);
+      runScene(engine);
     }
-  }, [engine, gameStore.current_scene, registry, gameStore.introduced_characters]);
+  }, [engine, gameStore.current_scene, registry, gameStore.introduced_characters, runScene]);
+
+  // Blueprint hot reload (dev server only); theme changes apply without touching the scene
+  useEffect(
+    () =>
+      registry.onChange((change) => {
+        if (change.kind !== 'theme') setReloadChange(change);
+      }),
+    [registry]
+  );
 
   function handleUpdate(update: SceneUpdate) {
     switch (update.type) {
       case 'scene_loaded':
+        setRejections([]);
         setSceneState({
           background: update.scene!.blueprint.view.default.uri!,
           characters: Array.from(update.scene!.characters.values()),
@@ -84,11 +132,22 @@ export function SceneView() {
         });
         break;
 
+      case 'scene_refreshed':
+        setSceneState((prev) => ({
+          ...prev,
+          background: update.scene!.blueprint.view.default.uri!,
+          characters: Array.from(update.scene!.characters.values()),
+        }));
+        break;
+
       case 'dialogue_chunk':
         setSceneState((prev) => ({
           ...prev,
           dialogText: update.text as string,
-          speakerName: update.speaker_name as string,
+          // NPCs talking among themselves show who the line is meant for
+          speakerName: update.listener_name
+            ? `${update.speaker_name} → ${update.listener_name}`
+            : (update.speaker_name as string),
           activeCharacterId: update.speaker_id as string, // Update active character to the speaker
           isAIThinking: false,
           currentTurn: 'npc',
@@ -113,8 +172,10 @@ export function SceneView() {
         break;
 
       case 'ai_thinking':
+        setRejections([]);
         setSceneState((prev) => ({
           ...prev,
+          activeCharacterId: update.speaker_id ?? prev.activeCharacterId,
           isAIThinking: true,
           dialogText: '',
           speakerName: null,
@@ -124,29 +185,24 @@ export function SceneView() {
         }));
         break;
 
-      case 'scene_transition':
-        // Update current scene in store and save progress
-        gameStore.setCurrentScene(
-          gameStore.current_route,
-          gameStore.current_chapter,
-          update.next_scene as string
-        );
-        gameStore.save();
-        engine.startScene(update.next_scene as string);
+      case 'tool_call_rejected':
+        setRejections((prev) => [...prev, update.rejection!]);
         break;
 
+      case 'scene_transition':
       case 'scene_ended':
-        console.log('Scene ended:', update.result, update.summary);
+        onSceneFinishedRef.current(update);
         break;
     }
   }
 
-  const handlePlayerSubmit = (text: string) => {
+  const showPlayerTurn = (turn: PlayerTurn, message: string) => {
     if (inputResolve) {
       // Show player's message and wait for continue
+      setPlayerTurn(turn);
       setSceneState((prev) => ({
         ...prev,
-        playerMessage: text,
+        playerMessage: message,
         showPlayerMessage: true,
         currentTurn: 'player',
         playerMessageNeedsContinue: true,
@@ -154,11 +210,25 @@ export function SceneView() {
     }
   };
 
+  const handlePlayerSubmit = (text: string) =>
+    showPlayerTurn({ text, addressee: addressee ?? undefined }, text);
+
+  const handleItemAction = (action: ItemAction, itemId: string, text: string) => {
+    const item = gameStore.inventory.find((i) => i.id === itemId);
+    const label = `[${t(`ui.items.${action}`)}: ${item?.name ?? itemId}]`;
+    showPlayerTurn(
+      { text, item: { action, item_id: itemId }, addressee: addressee ?? undefined },
+      text ? `${label} ${text}` : label
+    );
+  };
+
   const handlePlayerContinue = useCallback(() => {
-    if (inputResolve && sceneState.playerMessage) {
-      // Send the message to AI
-      inputResolve(sceneState.playerMessage);
+    if (inputResolve && playerTurn) {
+      // Send the turn to AI
+      inputResolve(playerTurn);
       setInputResolve(null);
+      setPlayerTurn(null);
+      setAddressee(null);
       // Clear player message state
       setSceneState((prev) => ({
         ...prev,
@@ -166,7 +236,7 @@ export function SceneView() {
         showPlayerMessage: false,
       }));
     }
-  }, [inputResolve, sceneState.playerMessage]);
+  }, [inputResolve, playerTurn]);
 
   const handleContinue = useCallback(() => {
     if (continueResolve) {
@@ -186,9 +256,24 @@ export function SceneView() {
       gameStore.markCharacterIntroduced(pendingCharacterIntro);
       setPendingCharacterIntro(null);
       // Start the scene
-      engine.startScene(gameStore.current_scene);
+      runScene(engine);
     }
-  }, [pendingCharacterIntro, gameStore, engine]);
+  }, [pendingCharacterIntro, gameStore, engine, runScene]);
+
+  const handleReloadRefresh = () => {
+    engine.refreshScene();
+    setReloadChange(null);
+  };
+
+  // Restarting replays the scene on a fresh engine; the game store is left untouched
+  const restartScene = () => {
+    engine.dispose();
+    setInputResolve(null);
+    setContinueResolve(null);
+    setReloadChange(null);
+    setSceneError(null);
+    setEngine(new GameEngine(registry, useGameStore, provider, handleUpdate));
+  };
 
   // Get player character
   const playerCharacter = sceneState.characters.find(
@@ -200,9 +285,17 @@ export function SceneView() {
     (char) => char.blueprint.id === sceneState.activeCharacterId
   );
 
+  // Scenes with several NPCs show all of them; the player can click one to talk to them
+  const npcCharacters = sceneState.characters.filter(
+    (char) => char.blueprint.id !== game.player_character_id
+  );
+  const isEnsemble = npcCharacters.length > 1;
+
   // Determine visible character based on turn
   const visibleCharacters: CharacterModel[] = [];
-  if (sceneState.currentTurn === 'player') {
+  if (isEnsemble) {
+    visibleCharacters.push(...npcCharacters);
+  } else if (sceneState.currentTurn === 'player') {
     // Show player character when it's their turn
     if (playerCharacter) {
       visibleCharacters.push(playerCharacter);
@@ -215,6 +308,13 @@ export function SceneView() {
     }
   }
 
+  const highlightedId =
+    sceneState.currentTurn === 'player' ? addressee : sceneState.activeCharacterId;
+  const spritePositions: Record<number, Array<'left' | 'center' | 'right'>> = {
+    2: ['left', 'right'],
+    3: ['left', 'center', 'right'],
+  };
+
   // When player input is enabled, switch to player turn
   useEffect(() => {
     if (playerInputEnabled) {
@@ -264,15 +364,34 @@ export function SceneView() {
         </div>
       )}
 
-      {/* Characters Layer - Hidden during intro, single character centered */}
+      {/* Characters Layer - Hidden during intro; one centered character, or the whole cast */}
       {!sceneState.showingIntro && visibleCharacters.length > 0 && (
         <div className="absolute inset-0 z-10 flex items-end justify-center pb-32 px-8 pointer-events-none">
-          <CharacterSprite
-            key={visibleCharacters[0].blueprint.id}
-            character={visibleCharacters[0]}
-            isActive={true}
-            position="center"
-          />
+          {isEnsemble ? (
+            visibleCharacters.map((char, i) => (
+              <CharacterSprite
+                key={char.blueprint.id}
+                character={char}
+                isActive={char.blueprint.id === highlightedId}
+                position={spritePositions[visibleCharacters.length]?.[i] ?? 'center'}
+                onClick={
+                  playerInputEnabled && !sceneState.showPlayerMessage
+                    ? () =>
+                        setAddressee((prev) =>
+                          prev === char.blueprint.id ? null : char.blueprint.id
+                        )
+                    : undefined
+                }
+              />
+            ))
+          ) : (
+            <CharacterSprite
+              key={visibleCharacters[0].blueprint.id}
+              character={visibleCharacters[0]}
+              isActive={true}
+              position="center"
+            />
+          )}
         </div>
       )}
 
@@ -313,7 +432,15 @@ export function SceneView() {
         <>
           {/* Show input if waiting for player, or show their message if they've sent it */}
           {!sceneState.showPlayerMessage && (
-            <PlayerInput enabled={playerInputEnabled} onSubmit={handlePlayerSubmit} />
+            <PlayerInput
+              enabled={playerInputEnabled}
+              onSubmit={handlePlayerSubmit}
+              onItemAction={handleItemAction}
+              addresseeName={
+                npcCharacters.find((char) => char.blueprint.id === addressee)?.blueprint.name
+              }
+              onClearAddressee={() => setAddressee(null)}
+            />
           )}
 
           {sceneState.showPlayerMessage && sceneState.playerMessage && (
@@ -343,6 +470,24 @@ export function SceneView() {
 
       {/* Hamburger Menu - Top right */}
       <HamburgerMenu />
+      <ItemToast />
+
+      {sceneError && (
+        <ErrorNotice title="ui.scene_failed" message={sceneError} onRetry={restartScene} />
+      )}
+
+      {reloadChange && (
+        <HotReloadNotice
+          change={reloadChange}
+          onRefresh={handleReloadRefresh}
+          onRestart={restartScene}
+          onDismiss={() => setReloadChange(null)}
+        />
+      )}
+
+      {import.meta.env.DEV && rejections.length > 0 && (
+        <RejectedToolCallsNotice rejections={rejections} onDismiss={() => setRejections([])} />
+      )}
     </div>
   );
 }
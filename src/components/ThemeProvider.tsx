@@ -1,31 +1,110 @@
-import { ReactNode, useEffect } from 'react';
+import { ReactNode, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ThemeContext } from '../contexts/ThemeContext';
 import { ThemeBlueprint } from '../types/blueprints';
 
+const STORAGE_KEY = 'game_theme';
+const STYLESHEET_ID = 'vn-theme-stylesheet';
+const FONT_ATTRIBUTE = 'data-vn-theme-font';
+
 interface ThemeProviderProps {
-  theme: ThemeBlueprint;
+  themes: ThemeBlueprint[];
+  /** Theme used until the player picks one, normally `game.theme` */
+  defaultThemeId: string;
   children: ReactNode;
 }
 
-export function ThemeProvider({ theme, children }: ThemeProviderProps) {
+function getThemeVariables(theme: ThemeBlueprint): Record<string, string> {
+  const variables: Record<string, string> = {};
+
+  Object.entries(theme.colors).forEach(([key, value]) => {
+    variables[`--color-${key}`] = value;
+  });
+
+  Object.entries(theme.fonts).forEach(([key, value]) => {
+    variables[`--font-${key}`] = value;
+  });
+
+  if (theme.ui) {
+    Object.entries(theme.ui).forEach(([key, value]) => {
+      if (value !== undefined) {
+        variables[`--${key.replace(/_/g, '-')}`] = value;
+      }
+    });
+  }
+
+  return variables;
+}
+
+function applyStylesheet(href: string | undefined) {
+  let link = document.getElementById(STYLESHEET_ID) as HTMLLinkElement | null;
+  if (!href) {
+    link?.remove();
+    return;
+  }
+
+  if (!link) {
+    link = document.createElement('link');
+    link.id = STYLESHEET_ID;
+    link.rel = 'stylesheet';
+    document.head.appendChild(link);
+  }
+  if (link.getAttribute('href') !== href) {
+    link.setAttribute('href', href);
+  }
+}
+
+function applyFonts(urls: string[]) {
+  const existing = Array.from(
+    document.querySelectorAll<HTMLLinkElement>(`link[${FONT_ATTRIBUTE}]`)
+  );
+
+  existing.forEach((link) => {
+    if (!urls.includes(link.getAttribute('href') ?? '')) link.remove();
+  });
+
+  urls.forEach((url) => {
+    if (existing.some((link) => link.getAttribute('href') === url)) return;
+    const link = document.createElement('link');
+    link.rel = 'stylesheet';
+    link.href = url;
+    link.setAttribute(FONT_ATTRIBUTE, '');
+    document.head.appendChild(link);
+  });
+}
+
+export function ThemeProvider({ themes, defaultThemeId, children }: ThemeProviderProps) {
+  const [themeId, setThemeId] = useState(() => localStorage.getItem(STORAGE_KEY) || defaultThemeId);
+  const appliedVariables = useRef<string[]>([]);
+
+  const theme =
+    themes.find((t) => t.id === themeId) ??
+    themes.find((t) => t.id === defaultThemeId) ??
+    themes[0];
+
   useEffect(() => {
     const root = document.documentElement;
+    const variables = getThemeVariables(theme);
 
-    Object.entries(theme.colors).forEach(([key, value]) => {
-      root.style.setProperty(`--color-${key}`, value);
-    });
+    // Variables only the previous theme defined would otherwise leak into this one
+    appliedVariables.current
+      .filter((name) => !(name in variables))
+      .forEach((name) => root.style.removeProperty(name));
 
-    Object.entries(theme.fonts).forEach(([key, value]) => {
-      root.style.setProperty(`--font-${key}`, value);
+    Object.entries(variables).forEach(([name, value]) => {
+      root.style.setProperty(name, value);
     });
+    appliedVariables.current = Object.keys(variables);
 
-    if (theme.ui) {
-      Object.entries(theme.ui).forEach(([key, value]) => {
-        if (value !== undefined) {
-          root.style.setProperty(`--${key.replace(/_/g, '-')}`, value);
-        }
-      });
-    }
+    applyStylesheet(theme.stylesheet);
+    applyFonts(theme.font_urls ?? []);
   }, [theme]);
 
-  return <>{children}</>;
+  const setTheme = useCallback((id: string) => {
+    localStorage.setItem(STORAGE_KEY, id);
+    setThemeId(id);
+  }, []);
+
+  const value = useMemo(() => ({ theme, themes, setTheme }), [theme, themes, setTheme]);
+
+  return <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>;
 }
@@ -0,0 +1,37 @@
+import { useState } from 'react';
+import { useTheme } from '../contexts/ThemeContext';
+
+export function ThemeSelector() {
+  const { theme, themes, setTheme } = useTheme();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleThemeChange = (id: string) => {
+    setTheme(id);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative w-full">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="vn-button vn-button-secondary text-sm py-2 px-4 w-full"
+      >
+        {theme.name}
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full mt-2 left-0 right-0 vn-menu p-2 z-10">
+          {themes.map((t) => (
+            <button
+              key={t.id}
+              onClick={() => handleThemeChange(t.id)}
+              className={`vn-menu-item vn-text block w-full text-base text-left ${t.id === theme.id ? 'active' : ''}`}
+            >
+              {t.name}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+import { createContext, useContext } from 'react';
+import { LLMProvider } from '../types/llm';
+
+export const ProviderContext = createContext<LLMProvider | null>(null);
+
+export const useProvider = () => {
+  const provider = useContext(ProviderContext);
+  if (!provider) {
+    throw new Error('useProvider must be used within ProviderContext.Provider');
+  }
+  return provider;
+};
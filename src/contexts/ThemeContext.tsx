@@ -0,0 +1,18 @@
+import { createContext, useContext } from 'react';
+import { ThemeBlueprint } from '../types/blueprints';
+
+export interface ThemeContextValue {
+  theme: ThemeBlueprint;
+  themes: ThemeBlueprint[];
+  setTheme: (id: string) => void;
+}
+
+export const ThemeContext = createContext<ThemeContextValue | null>(null);
+
+export const useTheme = () => {
+  const context = useContext(ThemeContext);
+  if (!context) {
+    throw new Error('useTheme must be used within ThemeProvider');
+  }
+  return context;
+};
@@ -0,0 +1,227 @@
+import { describe, expect, it, vi } from 'vitest';
+import { BlueprintRegistry } from './BlueprintRegistry';
+import { BlueprintValidationError } from './BlueprintValidator';
+import { MemoryBlueprintSource } from './sources/MemoryBlueprintSource';
+import { testGameFiles, testGameSource } from '../test/fixtures';
+
+/** The test game split into two chapters, scene_2 (with Sam) being the second */
+function twoChapterFiles(): Record<string, unknown> {
+  const files = testGameFiles();
+  return {
+    ...files,
+    'blueprints/en_US/routes.json': [
+      {
+        ...(files['blueprints/en_US/routes.json'] as object[])[0],
+        chapters: ['chapter_1', 'chapter_2'],
+      },
+    ],
+    'blueprints/en_US/chapters.json': [
+      { id: 'chapter_1', title: 'Chapter 1', intro: 'It begins', scenes: ['scene_1'] },
+      { id: 'chapter_2', title: 'Chapter 2', intro: 'It goes on', scenes: ['scene_2'] },
+    ],
+  };
+}
+
+describe('BlueprintRegistry', () => {
+  it('loads a game from a memory source', async () => {
+    const registry = new BlueprintRegistry(testGameSource());
+    await registry.load('en_US');
+
+    expect(registry.getGame().id).toBe('test_game');
+    expect(registry.getAllCharacters().map((c) => c.id)).toEqual(['mc', 'riley', 'sam']);
+    expect(registry.getScene('scene_2').characters).toEqual(['mc', 'riley', 'sam']);
+    expect(registry.getItem('key')?.name).toBe('Key');
+    expect(registry.getTheme('default').name).toBe('Default');
+    expect(registry.getValidationReport()).toEqual({ errors: [], warnings: [] });
+  });
+
+  it('fills missing translations from the base language and records them', async () => {
+    const registry = new BlueprintRegistry(testGameSource());
+    await registry.load('ko_KR');
+
+    const scene = registry.getScene('scene_1');
+    expect(scene.title).toBe('첫 만남');
+    expect(scene.characters).toEqual(['mc', 'riley']);
+
+    const fallback = registry
+      .getLocaleFallbacks()
+      .find((f) => f.file === 'ko_KR/scenes/scene_1.json');
+    expect(fallback?.fields).toEqual(expect.arrayContaining(['view', 'characters', 'goals']));
+    // Untranslated files fall back whole
+    expect(registry.getLocaleFallbacks()).toContainEqual({
+      file: 'ko_KR/scenes/scene_2.json',
+      fallbackLanguage: 'en_US',
+      fields: [],
+    });
+  });
+
+  it('loads the bundled theme packs alongside the game theme', async () => {
+    const files = testGameFiles();
+    const registry = new BlueprintRegistry(
+      testGameSource({
+        'themes/index.json': ['dark'],
+        'themes/dark.json': {
+          ...(files['themes/default.json'] as object),
+          id: 'dark',
+          name: 'Dark',
+          stylesheet: 'themes/dark.css',
+        },
+      })
+    );
+    await registry.load('en_US');
+
+    expect(registry.getAvailableThemes().map((theme) => theme.id)).toEqual(['default', 'dark']);
+    expect(registry.getTheme('dark').stylesheet).toBe('/themes/dark.css');
+  });
+
+  it('only loads the game theme when there is no theme index', async () => {
+    const registry = new BlueprintRegistry(testGameSource());
+    await registry.load('en_US');
+
+    expect(registry.getAvailableThemes().map((theme) => theme.id)).toEqual(['default']);
+  });
+
+  it('rejects blueprints that break the schema', async () => {
+    const files = testGameFiles();
+    const registry = new BlueprintRegistry(
+      testGameSource({
+        'blueprints/en_US/scenes/scene_2.json': {
+          ...(files['blueprints/en_US/scenes/scene_2.json'] as object),
+          title: undefined,
+          mood: 'tense',
+        },
+      })
+    );
+
+    const error = await registry.load('en_US').catch((e) => e);
+    expect(error).toBeInstanceOf(BlueprintValidationError);
+    expect(error.message).toContain('title');
+    expect(error.message).toContain('mood');
+  });
+
+  it('fails the load on broken references in throw mode', async () => {
+    const registry = new BlueprintRegistry(
+      testGameSource({
+        'blueprints/en_US/chapters.json': [
+          { id: 'chapter_1', title: 'Chapter 1', intro: 'It begins', scenes: ['scene_1', 'lost'] },
+        ],
+      }),
+      { validation: 'throw' }
+    );
+
+    const error = await registry.load('en_US').catch((e) => e);
+    expect(error).toBeInstanceOf(BlueprintValidationError);
+    expect(error.report.errors).toHaveLength(1);
+    expect(error.message).toContain('Unknown scene "lost"');
+  });
+
+  it('reloads a changed blueprint in place', async () => {
+    const source = testGameSource();
+    const registry = new BlueprintRegistry(source);
+    await registry.load('en_US');
+
+    source.set('blueprints/en_US/scenes/scene_1.json', {
+      ...(testGameFiles()['blueprints/en_US/scenes/scene_1.json'] as object),
+      title: 'Renamed',
+    });
+    const change = await registry.reloadBlueprint('blueprints/en_US/scenes/scene_1.json');
+
+    expect(change).toMatchObject({ kind: 'scene', id: 'scene_1' });
+    expect(registry.getScene('scene_1').title).toBe('Renamed');
+  });
+
+  it('keeps the previous version when a reloaded blueprint breaks the schema', async () => {
+    const source = testGameSource();
+    const registry = new BlueprintRegistry(source);
+    await registry.load('en_US');
+
+    source.set('blueprints/en_US/items/key.json', { id: 'key' });
+    await expect(registry.reloadBlueprint('blueprints/en_US/items/key.json')).rejects.toThrow(
+      BlueprintValidationError
+    );
+    expect(registry.getItem('key')?.name).toBe('Key');
+  });
+
+  it('replaces the locale fallback of a reloaded file instead of adding another', async () => {
+    const registry = new BlueprintRegistry(testGameSource());
+    await registry.load('ko_KR');
+    const count = registry.getLocaleFallbacks().length;
+
+    await registry.reloadBlueprint('blueprints/ko_KR/scenes/scene_1.json');
+    await registry.reloadBlueprint('blueprints/ko_KR/scenes/scene_1.json');
+
+    const entries = registry
+      .getLocaleFallbacks()
+      .filter((f) => f.file === 'ko_KR/scenes/scene_1.json');
+    expect(entries).toHaveLength(1);
+    expect(registry.getLocaleFallbacks()).toHaveLength(count);
+  });
+
+  describe('lazy mode', () => {
+    it('loads the starting chapter up front and prefetches the next one', async () => {
+      // Hold back scene_2 until the test lets it through
+      let release!: () => void;
+      const released = new Promise<void>((resolve) => (release = resolve));
+      const reads: string[] = [];
+      const files = new MemoryBlueprintSource(twoChapterFiles());
+      const registry = new BlueprintRegistry(
+        {
+          async readJson(path) {
+            reads.push(path);
+            if (path.endsWith('scene_2.json')) await released;
+            return files.readJson(path);
+          },
+        },
+        { lazy: true }
+      );
+      await registry.load('en_US');
+
+      expect(registry.getScene('scene_1').title).toBe('First Meeting');
+      expect(registry.getCharacter('riley').name).toBe('Riley');
+      expect(() => registry.getScene('scene_2')).toThrow('Scene scene_2 not found');
+      expect(reads).toContain('blueprints/en_US/scenes/scene_2.json');
+
+      release();
+      await registry.loadChapter('chapter_2');
+      expect(registry.getScene('scene_2').title).toBe('Together');
+      expect(registry.getCharacter('sam').name).toBe('Sam');
+    });
+
+    it('knows every character id before their files are loaded', async () => {
+      const registry = new BlueprintRegistry(new MemoryBlueprintSource(twoChapterFiles()), {
+        lazy: true,
+      });
+      // Keep the prefetch of chapter 2 from loading Sam
+      vi.spyOn(registry, 'loadChapter').mockResolvedValue();
+      await registry.load('en_US');
+
+      expect(() => registry.getCharacter('sam')).toThrow('Character sam not found');
+      expect(registry.hasCharacterId('sam')).toBe(true);
+      expect(registry.hasCharacterId('ghost')).toBe(false);
+    });
+
+    it('rejects chapters and scenes whose files break the schema', async () => {
+      const files = twoChapterFiles();
+      const registry = new BlueprintRegistry(
+        new MemoryBlueprintSource({
+          ...files,
+          'blueprints/en_US/scenes/scene_2.json': {
+            ...(files['blueprints/en_US/scenes/scene_2.json'] as object),
+            title: undefined,
+          },
+        }),
+        { lazy: true }
+      );
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      await registry.load('en_US');
+
+      const error = await registry.loadChapter('chapter_2').catch((e) => e);
+      expect(error).toBeInstanceOf(BlueprintValidationError);
+      expect(error.report.errors).toEqual([
+        expect.objectContaining({ file: 'en_US/scenes/scene_2.json' }),
+      ]);
+      await expect(registry.ensureScene('scene_2')).rejects.toThrow('title is required');
+      warn.mockRestore();
+    });
+  });
+});
@@ -7,7 +7,84 @@ import {
   ThemeBlueprint,
   GameBlueprint,
 } from '../types/blueprints';
+import { ValidationIssue, ValidationReport } from '../types/validation';
+import { JsonSchema } from '../types/schema';
+import {
+  characterSchema,
+  sceneSchema,
+  chapterListSchema,
+  routeListSchema,
+  itemSchema,
+  themeSchema,
+  gameSchema,
+  idListSchema,
+} from '../schemas/blueprints';
 import { resolveAssetPath } from '../utils/assetPath';
+import { chapterSceneIds } from '../utils/branching';
+import { createLimiter, Limiter } from '../utils/concurrency';
+import { fillMissingFields, mergeIdLists } from '../utils/localeFallback';
+import {
+  BlueprintValidator,
+  BlueprintValidationError,
+  formatValidationReport,
+} from './BlueprintValidator';
+import { validateSchema } from './SchemaValidator';
+import { BlueprintSource } from './sources/BlueprintSource';
+import { HttpBlueprintSource } from './sources/HttpBlueprintSource';
+import { TranslationCoverage, TranslationCoverageReport } from './TranslationCoverage';
+
+export interface BlueprintRegistryOptions {
+  /**
+   * What to do with the validation report after loading: `throw` on errors (default in dev),
+   * `warn` to log it (default in production), or `silent` to leave it to getValidationReport().
+   */
+  validation?: 'throw' | 'warn' | 'silent';
+
+  /** Maximum number of blueprint files fetched at once (default 6). */
+  concurrency?: number;
+
+  /**
+   * Only load the scenes and characters of the starting chapter up front; other chapters are
+   * fetched by loadChapter()/ensureScene(). Cross-reference validation is skipped in this mode,
+   * since it needs the whole tree — run `npm run blueprints:lint` instead.
+   */
+  lazy?: boolean;
+}
+
+export interface LoadProgress {
+  loaded: number;
+  total: number;
+  path: string;
+}
+
+export interface LocaleFallback {
+  /** The translated file, e.g. `ko_KR/scenes/scene_2.json` */
+  file: string;
+  fallbackLanguage: string;
+  /** Paths of the fields filled from the fallback language; empty if the whole file is missing */
+  fields: string[];
+}
+
+/** A blueprint file reloaded by reloadBlueprint() */
+export interface BlueprintChange {
+  kind: 'game' | 'character' | 'scene' | 'item' | 'chapters' | 'routes' | 'theme';
+  /** Id of the reloaded character, scene, item or theme */
+  id?: string;
+  /** The changed file, relative to the public root */
+  path: string;
+}
+
+const DEFAULT_CONCURRENCY = 6;
+
+function throwIfInvalid(issues: ValidationIssue[]): void {
+  if (issues.length > 0) {
+    throw new BlueprintValidationError({ errors: issues, warnings: [] });
+  }
+}
+
+function toBlueprintName(path: string): string {
+  return path.replace(/^blueprints\//, '');
+}
 
 export class BlueprintRegistry {
   private characters = new Map<string, CharacterBlueprint>();
@@ -19,13 +96,149 @@ export class BlueprintRegistry {
   private game: GameBlueprint | null = null;
   private currentLanguage: string = 'en_US';
   private availableLanguages: string[] = [];
+  private validationReport: ValidationReport = { errors: [], warnings: [] };
+  private loadIssues: ValidationIssue[] = [];
+  private localeFallbacks: LocaleFallback[] = [];
+  private loadedPaths = new Set<string>();
+  private chapterLoads = new Map<string, Promise<ValidationIssue[]>>();
+  private characterIds = new Set<string>();
+  private progress = { loaded: 0, total: 0 };
+  private progressListeners = new Set<(progress: LoadProgress) => void>();
+  private changeListeners = new Set<(change: BlueprintChange) => void>();
+  private limit: Limiter;
+
+  constructor(
+    private source: BlueprintSource = new HttpBlueprintSource(),
+    private options: BlueprintRegistryOptions = {}
+  ) {
+    this.limit = createLimiter(options.concurrency ?? DEFAULT_CONCURRENCY);
+  }
+
+  /**
+   * Subscribe to per-file load progress. Returns an unsubscribe function.
+   */
+  onProgress(listener: (progress: LoadProgress) => void): () => void {
+    this.progressListeners.add(listener);
+    return () => {
+      this.progressListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribe to blueprints reloaded by reloadBlueprint(). Returns an unsubscribe function.
+   */
+  onChange(listener: (change: BlueprintChange) => void): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  private emitProgress(path: string): void {
+    const progress = { ...this.progress, path };
+    this.progressListeners.forEach((listener) => listener(progress));
+  }
+
+  private async readJson(path: string): Promise<unknown> {
+    this.progress.total++;
+    this.emitProgress(path);
 
-  private async fetchJson<T>(url: string, blueprintName: string): Promise<T> {
-    const response = await fetch(url);
     try {
-      return await response.json();
+      const data = await this.limit(() => this.source.readJson(path));
+      this.loadedPaths.add(path);
+      return data;
     } catch (error) {
-      throw new Error(`Failed to parse JSON for blueprint "${blueprintName}": ${error}`);
+      throw new Error(
+        `Failed to load blueprint "${toBlueprintName(path)}": ${error instanceof Error ? error.message : error}`
+      );
+    } finally {
+      this.progress.loaded++;
+      this.emitProgress(path);
+    }
+  }
+
+  private checkSchema<T>(data: unknown, path: string, schema: JsonSchema): T {
+    const errors = validateSchema(schema, data);
+    if (errors.length > 0) {
+      const file = toBlueprintName(path);
+      throw new BlueprintValidationError({
+        errors: errors.map((message) => ({ severity: 'error', file, message })),
+        warnings: [],
+      });
+    }
+    return data as T;
+  }
+
+  private async fetchJson<T>(path: string, schema: JsonSchema): Promise<T> {
+    return this.checkSchema<T>(await this.readJson(path), path, schema);
+  }
+
+  /**
+   * The first entry of languages.json is the base language every translation falls back to.
+   */
+  private getFallbackLanguage(): string | null {
+    const base = this.availableLanguages[0];
+    return base && base !== this.currentLanguage ? base : null;
+  }
+
+  /**
+   * Fetch a file from the current language folder (e.g. `scenes/scene_1.json`). When the file or
+   * some of its fields are missing, they are filled from the fallback language and recorded in
+   * getLocaleFallbacks().
+   */
+  private async fetchLocalized<T>(
+    file: string,
+    schema: JsonSchema,
+    merge: (translated: unknown, base: unknown, filled: string[]) => unknown = fillMissingFields
+  ): Promise<T> {
+    const path = `${this.getBasePath()}/${file}`;
+    // A hot reload fetches the file again; its previous fallback entry no longer applies
+    this.localeFallbacks = this.localeFallbacks.filter((f) => f.file !== toBlueprintName(path));
+    const fallbackLanguage = this.getFallbackLanguage();
+    if (!fallbackLanguage) {
+      return this.fetchJson<T>(path, schema);
+    }
+
+    const [translated, base] = await Promise.allSettled([
+      this.readJson(path),
+      this.readJson(`blueprints/${fallbackLanguage}/${file}`),
+    ]);
+    const fallback = { file: toBlueprintName(path), fallbackLanguage };
+
+    if (translated.status === 'rejected') {
+      if (base.status === 'rejected') throw translated.reason;
+      this.localeFallbacks.push({ ...fallback, fields: [] });
+      return this.checkSchema<T>(base.value, path, schema);
+    }
+    if (base.status === 'rejected') {
+      return this.checkSchema<T>(translated.value, path, schema);
+    }
+
+    const fields: string[] = [];
+    const merged = merge(translated.value, base.value, fields);
+    if (fields.length > 0) {
+      this.localeFallbacks.push({ ...fallback, fields });
+    }
+    return this.checkSchema<T>(merged, path, schema);
+  }
+
+  /**
+   * Like fetchLocalized, but a malformed entry file is recorded in `issues` and skipped instead
+   * of aborting the load, so one broken scene doesn't hide problems in the others.
+   */
+  private async fetchEntry<T>(
+    file: string,
+    schema: JsonSchema,
+    issues: ValidationIssue[]
+  ): Promise<T | null> {
+    try {
+      return await this.fetchLocalized<T>(file, schema);
+    } catch (error) {
+      if (error instanceof BlueprintValidationError) {
+        issues.push(...error.report.errors);
+        return null;
+      }
+      throw error;
     }
   }
 
@@ -90,79 +303,396 @@ export class BlueprintRegistry {
     };
   }
 
+  private transformRouteBlueprint(route: RouteBlueprint): RouteBlueprint {
+    if (!route.ending?.image) return route;
+    return {
+      ...route,
+      ending: {
+        ...route.ending,
+        image: { ...route.ending.image, uri: resolveAssetPath(route.ending.image.uri) },
+      },
+    };
+  }
+
   private transformThemeBlueprint(theme: ThemeBlueprint): ThemeBlueprint {
-    return theme;
+    return {
+      ...theme,
+      stylesheet: resolveAssetPath(theme.stylesheet),
+    };
   }
 
   async load(language?: string): Promise<void> {
+    this.loadIssues = [];
+    this.localeFallbacks = [];
+    this.loadedPaths.clear();
+    this.progress = { loaded: 0, total: 0 };
+
     this.availableLanguages = await this.fetchJson<string[]>(
-      `${import.meta.env.BASE_URL}blueprints/languages.json`,
-      'languages.json'
+      'blueprints/languages.json',
+      idListSchema
     );
 
     const targetLanguage = language || this.detectLanguage();
     this.currentLanguage = targetLanguage;
 
-    const basePath = `${import.meta.env.BASE_URL}blueprints/${targetLanguage}`;
-
-    const gameBp = await this.fetchJson<GameBlueprint>(
-      `${import.meta.env.BASE_URL}blueprints/game.json`,
-      'game.json'
+    const [gameBp, charIds, sceneIds, chapters, routes, itemIds] = await Promise.all([
+      this.fetchJson<GameBlueprint>('blueprints/game.json', gameSchema),
+      this.fetchLocalized<string[]>('characters/index.json', idListSchema, mergeIdLists),
+      this.fetchLocalized<string[]>('scenes/index.json', idListSchema, mergeIdLists),
+      this.fetchLocalized<ChapterBlueprint[]>('chapters.json', chapterListSchema),
+      this.fetchLocalized<RouteBlueprint[]>('routes.json', routeListSchema),
+      this.fetchLocalized<string[]>('items/index.json', idListSchema, mergeIdLists),
+    ]);
+
+    const game = this.transformGameBlueprint(gameBp);
+    this.game = game;
+    this.characterIds = new Set(charIds);
+    chapters.forEach((ch: ChapterBlueprint) => this.chapters.set(ch.id, ch));
+    routes.forEach((rt: RouteBlueprint) =>
+      this.routes.set(rt.id, this.transformRouteBlueprint(rt))
     );
-    this.game = this.transformGameBlueprint(gameBp);
 
-    const charIds = await this.fetchJson<string[]>(
-      `${basePath}/characters/index.json`,
-      'characters/index.json'
-    );
-    for (const id of charIds) {
-      const charBp = await this.fetchJson<CharacterBlueprint>(
-        `${basePath}/characters/${id}.json`,
-        `characters/${id}.json`
+    const loadThemes = async () => {
+      if (this.themes.size > 0) return;
+      const ids = await this.fetchThemeIds(game.theme);
+      const themes = await Promise.all(
+        ids.map((id) => this.fetchJson<ThemeBlueprint>(`themes/${id}.json`, themeSchema))
+      );
+      themes.forEach((themeBp) =>
+        this.themes.set(themeBp.id, this.transformThemeBlueprint(themeBp))
       );
-      this.characters.set(id, this.transformCharacterBlueprint(charBp));
+    };
+
+    if (this.options.lazy) {
+      const startingChapter = this.routes.get(game.starting_route)?.starting_chapter;
+      await Promise.all([
+        loadThemes(),
+        this.loadItems(itemIds),
+        this.loadCharacters([game.player_character_id], this.loadIssues),
+        startingChapter
+          ? this.loadChapterEntries(startingChapter).then((issues) => {
+              this.loadIssues.push(...issues);
+              this.prefetchNextChapter(startingChapter);
+            })
+          : Promise.resolve(),
+      ]);
+      this.validationReport = { errors: [...this.loadIssues], warnings: [] };
+    } else {
+      await Promise.all([
+        loadThemes(),
+        this.loadItems(itemIds),
+        this.loadCharacters(charIds, this.loadIssues),
+        this.loadScenes(sceneIds, this.loadIssues),
+      ]);
+
+      const crossReferences = this.validate();
+      this.validationReport = {
+        errors: [...this.loadIssues, ...crossReferences.errors],
+        warnings: crossReferences.warnings,
+      };
     }
+    this.reportValidation();
 
-    const sceneIds = await this.fetchJson<string[]>(
-      `${basePath}/scenes/index.json`,
-      'scenes/index.json'
-    );
-    for (const id of sceneIds) {
-      const sceneBp = await this.fetchJson<SceneBlueprint>(
-        `${basePath}/scenes/${id}.json`,
-        `scenes/${id}.json`
+    if (import.meta.env.DEV && this.localeFallbacks.length > 0) {
+      console.info(
+        `${this.localeFallbacks.length} ${targetLanguage} blueprint file(s) fall back to ${this.getFallbackLanguage()}:`,
+        this.localeFallbacks
       );
-      this.scenes.set(id, this.transformSceneBlueprint(sceneBp));
     }
+  }
+
+  /**
+   * Ids of the bundled theme packs listed in `themes/index.json`, always including the game's
+   * own theme. Games without an index only ship their own theme.
+   */
+  private async fetchThemeIds(gameTheme: string): Promise<string[]> {
+    let ids: string[] = [];
+    try {
+      ids = await this.fetchJson<string[]>('themes/index.json', idListSchema);
+    } catch (error) {
+      if (error instanceof BlueprintValidationError) throw error;
+    }
+    return ids.includes(gameTheme) ? ids : [gameTheme, ...ids];
+  }
 
-    const chapters = await this.fetchJson<ChapterBlueprint[]>(
-      `${basePath}/chapters.json`,
-      'chapters.json'
+  private getBasePath(): string {
+    return `blueprints/${this.currentLanguage}`;
+  }
+
+  private async loadCharacters(ids: string[], issues: ValidationIssue[]): Promise<void> {
+    await Promise.all(
+      ids
+        .filter((id) => !this.characters.has(id))
+        .map(async (id) => {
+          const charBp = await this.fetchEntry<CharacterBlueprint>(
+            `characters/${id}.json`,
+            characterSchema,
+            issues
+          );
+          if (charBp) this.characters.set(id, this.transformCharacterBlueprint(charBp));
+        })
     );
-    chapters.forEach((ch: ChapterBlueprint) => this.chapters.set(ch.id, ch));
+  }
 
-    const routes = await this.fetchJson<RouteBlueprint[]>(`${basePath}/routes.json`, 'routes.json');
-    routes.forEach((rt: RouteBlueprint) => this.routes.set(rt.id, rt));
+  private async loadScenes(ids: string[], issues: ValidationIssue[]): Promise<void> {
+    await Promise.all(
+      ids
+        .filter((id) => !this.scenes.has(id))
+        .map(async (id) => {
+          const sceneBp = await this.fetchEntry<SceneBlueprint>(
+            `scenes/${id}.json`,
+            sceneSchema,
+            issues
+          );
+          if (sceneBp) this.scenes.set(id, this.transformSceneBlueprint(sceneBp));
+        })
+    );
+  }
 
-    const itemIds = await this.fetchJson<string[]>(
-      `${basePath}/items/index.json`,
-      'items/index.json'
+  private async loadItems(ids: string[]): Promise<void> {
+    await Promise.all(
+      ids.map(async (id) => {
+        const itemBp = await this.fetchEntry<ItemBlueprint>(
+          `items/${id}.json`,
+          itemSchema,
+          this.loadIssues
+        );
+        if (itemBp) this.items.set(id, this.transformItemBlueprint(itemBp));
+      })
     );
-    for (const id of itemIds) {
-      const itemBp = await this.fetchJson<ItemBlueprint>(
-        `${basePath}/items/${id}.json`,
-        `items/${id}.json`
+  }
+
+  /**
+   * Make sure every scene of a chapter (and the characters in them) is loaded, then prefetch the
+   * next chapter of the route in the background. A no-op when everything is already loaded.
+   * Throws a BlueprintValidationError listing any scene or character file that breaks its schema.
+   */
+  async loadChapter(chapterId: string, prefetchNext: boolean = true): Promise<void> {
+    throwIfInvalid(await this.loadChapterEntries(chapterId));
+    if (prefetchNext) this.prefetchNextChapter(chapterId);
+  }
+
+  private prefetchNextChapter(chapterId: string): void {
+    const nextChapterId = this.getNextChapterId(chapterId);
+    if (nextChapterId) {
+      this.loadChapter(nextChapterId, false).catch((error) =>
+        console.warn(`Failed to prefetch chapter ${nextChapterId}:`, error)
       );
-      this.items.set(id, this.transformItemBlueprint(itemBp));
     }
+  }
 
-    if (this.game && this.themes.size === 0) {
-      const themeBp = await this.fetchJson<ThemeBlueprint>(
-        `${import.meta.env.BASE_URL}themes/${this.game.theme}.json`,
-        `themes/${this.game.theme}.json`
+  /**
+   * Load a chapter's scenes and their characters once, resolving to the entry files that failed
+   * schema validation. A chapter with failed entries is fetched again on the next call.
+   */
+  private loadChapterEntries(chapterId: string): Promise<ValidationIssue[]> {
+    let pending = this.chapterLoads.get(chapterId);
+    if (!pending) {
+      const sceneIds = chapterSceneIds(this.getChapter(chapterId));
+      const issues: ValidationIssue[] = [];
+      pending = this.loadScenes(sceneIds, issues)
+        .then(() =>
+          this.loadCharacters(
+            Array.from(new Set(sceneIds.flatMap((id) => this.scenes.get(id)?.characters ?? []))),
+            issues
+          )
+        )
+        .then(() => issues);
+      this.chapterLoads.set(chapterId, pending);
+      pending.then(
+        (issues) => {
+          if (issues.length > 0) this.chapterLoads.delete(chapterId);
+        },
+        () => this.chapterLoads.delete(chapterId)
       );
-      this.themes.set(themeBp.id, this.transformThemeBlueprint(themeBp));
     }
+    return pending;
+  }
+
+  /**
+   * Make sure a single scene and its characters are loaded, e.g. before a goal transitions to a
+   * scene outside the current chapter. Throws like loadChapter() on malformed files.
+   */
+  async ensureScene(sceneId: string): Promise<void> {
+    const issues: ValidationIssue[] = [];
+    await this.loadScenes([sceneId], issues);
+    throwIfInvalid(issues);
+    await this.loadCharacters(this.getScene(sceneId).characters, issues);
+    throwIfInvalid(issues);
+  }
+
+  /**
+   * Map a changed file to the blueprint it holds. Returns null for files the registry doesn't
+   * currently hold: other languages, index files and entries a lazy load hasn't reached yet.
+   */
+  private parseBlueprintPath(path: string): BlueprintChange | null {
+    if (path === 'blueprints/game.json') return { kind: 'game', path };
+
+    const theme = path.match(/^themes\/([^/]+)\.json$/);
+    if (theme) return this.themes.has(theme[1]) ? { kind: 'theme', id: theme[1], path } : null;
+
+    const localized = path.match(/^blueprints\/([^/]+)\/(.+)$/);
+    if (!localized) return null;
+    const [, language, file] = localized;
+    if (language !== this.currentLanguage && language !== this.getFallbackLanguage()) return null;
+
+    if (file === 'chapters.json') return { kind: 'chapters', path };
+    if (file === 'routes.json') return { kind: 'routes', path };
+
+    const entry = file.match(/^(characters|scenes|items)\/([^/]+)\.json$/);
+    if (!entry) return null;
+    const [, folder, id] = entry;
+    const [kind, loaded] =
+      folder === 'characters'
+        ? (['character', this.characters] as const)
+        : folder === 'scenes'
+          ? (['scene', this.scenes] as const)
+          : (['item', this.items] as const);
+    if (!loaded.has(id)) return null;
+
+    return { kind, id, path };
+  }
+
+  /**
+   * Reload a single changed blueprint file (e.g. `blueprints/en_US/scenes/scene_1.json`) in place
+   * and notify onChange() subscribers. Used by the dev server's hot reload; files the registry
+   * doesn't hold are ignored and resolve to null. Schema errors reject and leave the previous
+   * version in place.
+   */
+  async reloadBlueprint(path: string): Promise<BlueprintChange | null> {
+    const change = this.parseBlueprintPath(path);
+    if (!change) return null;
+
+    switch (change.kind) {
+      case 'game': {
+        const gameBp = await this.fetchJson<GameBlueprint>(path, gameSchema);
+        this.game = this.transformGameBlueprint(gameBp);
+        break;
+      }
+      case 'theme': {
+        const themeBp = await this.fetchJson<ThemeBlueprint>(path, themeSchema);
+        this.themes.set(change.id!, this.transformThemeBlueprint(themeBp));
+        break;
+      }
+      case 'chapters': {
+        const chapters = await this.fetchLocalized<ChapterBlueprint[]>(
+          'chapters.json',
+          chapterListSchema
+        );
+        this.chapters = new Map(chapters.map((ch) => [ch.id, ch]));
+        // Chapters may list new scenes, so let loadChapter() run again
+        this.chapterLoads.clear();
+        break;
+      }
+      case 'routes': {
+        const routes = await this.fetchLocalized<RouteBlueprint[]>('routes.json', routeListSchema);
+        this.routes = new Map(routes.map((rt) => [rt.id, this.transformRouteBlueprint(rt)]));
+        break;
+      }
+      case 'character': {
+        const charBp = await this.fetchLocalized<CharacterBlueprint>(
+          `characters/${change.id}.json`,
+          characterSchema
+        );
+        this.characters.set(change.id!, this.transformCharacterBlueprint(charBp));
+        break;
+      }
+      case 'scene': {
+        const sceneBp = await this.fetchLocalized<SceneBlueprint>(
+          `scenes/${change.id}.json`,
+          sceneSchema
+        );
+        this.scenes.set(change.id!, this.transformSceneBlueprint(sceneBp));
+        const issues: ValidationIssue[] = [];
+        await this.loadCharacters(sceneBp.characters, issues);
+        throwIfInvalid(issues);
+        break;
+      }
+      case 'item': {
+        const itemBp = await this.fetchLocalized<ItemBlueprint>(
+          `items/${change.id}.json`,
+          itemSchema
+        );
+        this.items.set(change.id!, this.transformItemBlueprint(itemBp));
+        break;
+      }
+    }
+
+    if (!this.options.lazy) {
+      const report = this.validate();
+      if (report.errors.length > 0 || report.warnings.length > 0) {
+        console.warn(
+          `Blueprint problems after reloading ${toBlueprintName(path)}:\n${formatValidationReport(report)}`
+        );
+      }
+    }
+
+    this.changeListeners.forEach((listener) => listener(change));
+    return change;
+  }
+
+  private getNextChapterId(chapterId: string): string | null {
+    for (const route of this.routes.values()) {
+      const index = route.chapters.indexOf(chapterId);
+      if (index !== -1 && index + 1 < route.chapters.length) {
+        return route.chapters[index + 1];
+      }
+    }
+    return null;
+  }
+
+  private reportValidation(): void {
+    const mode = this.options.validation ?? (import.meta.env.DEV ? 'throw' : 'warn');
+    const { errors, warnings } = this.validationReport;
+
+    if (mode === 'silent' || (errors.length === 0 && warnings.length === 0)) return;
+    if (mode === 'throw' && errors.length > 0) {
+      throw new BlueprintValidationError(this.validationReport);
+    }
+    console.warn(formatValidationReport(this.validationReport));
+  }
+
+  /**
+   * Run the cross-reference checks against the currently loaded blueprints.
+   */
+  validate(): ValidationReport {
+    return new BlueprintValidator().validate({
+      language: this.currentLanguage,
+      game: this.getGame(),
+      characters: this.characters,
+      scenes: this.scenes,
+      chapters: this.chapters,
+      routes: this.routes,
+      items: this.items,
+      themes: this.themes,
+    });
+  }
+
+  /**
+   * Paths of every file read by the last load, e.g. to copy the game into another source.
+   */
+  getLoadedPaths(): string[] {
+    return Array.from(this.loadedPaths);
+  }
+
+  /**
+   * Translated files that are missing, or missing fields, in the current language and were
+   * filled from the fallback language during the last load.
+   */
+  getLocaleFallbacks(): LocaleFallback[] {
+    return this.localeFallbacks;
+  }
+
+  /**
+   * Diff every language against the base language. A development aid for translators; reads
+   * all files again, so don't call it during play.
+   */
+  async getTranslationCoverage(): Promise<TranslationCoverageReport> {
+    return new TranslationCoverage(this.source).analyze(this.availableLanguages);
+  }
+
+  getValidationReport(): ValidationReport {
+    return this.validationReport;
   }
 
   private detectLanguage(): string {
@@ -186,18 +716,35 @@ export class BlueprintRegistry {
     this.chapters.clear();
     this.routes.clear();
     this.items.clear();
+    this.chapterLoads.clear();
 
     await this.load(language);
 
     localStorage.setItem('game_language', language);
   }
 
+  /**
+   * Whether the game defines a character with this id, including characters that lazy mode
+   * hasn't loaded yet.
+   */
+  hasCharacterId(id: string): boolean {
+    return this.characterIds.has(id);
+  }
+
   getCharacter(id: string): CharacterBlueprint {
     const char = this.characters.get(id);
     if (!char) throw new Error(`Character ${id} not found`);
     return char;
   }
 
+  /**
+   * Whether the character is loaded; in lazy mode, only those of loaded scenes are. Use
+   * `hasCharacterId` to check that the game defines it.
+   */
+  hasCharacter(id: string): boolean {
+    return this.characters.has(id);
+  }
+
   getScene(id: string): SceneBlueprint {
     const scene = this.scenes.get(id);
     if (!scene) throw new Error(`Scene ${id} not found`);
@@ -221,12 +768,32 @@ export class BlueprintRegistry {
     return item || null;
   }
 
+  getAllCharacters(): CharacterBlueprint[] {
+    return Array.from(this.characters.values());
+  }
+
+  getAllScenes(): SceneBlueprint[] {
+    return Array.from(this.scenes.values());
+  }
+
+  getAllRoutes(): RouteBlueprint[] {
+    return Array.from(this.routes.values());
+  }
+
+  getAllItems(): ItemBlueprint[] {
+    return Array.from(this.items.values());
+  }
+
   getTheme(id: string): ThemeBlueprint {
     const theme = this.themes.get(id);
     if (!theme) throw new Error(`Theme ${id} not found`);
     return theme;
   }
 
+  getAvailableThemes(): ThemeBlueprint[] {
+    return Array.from(this.themes.values());
+  }
+
   getGame(): GameBlueprint {
     if (!this.game) throw new Error('Game not loaded');
     return this.game;
@@ -0,0 +1,215 @@
+import { describe, expect, it } from 'vitest';
+import { BlueprintSet, BlueprintValidator } from './BlueprintValidator';
+import {
+  CharacterBlueprint,
+  ChapterBlueprint,
+  GoalBlueprint,
+  ItemBlueprint,
+  RouteBlueprint,
+  SceneBlueprint,
+  ThemeBlueprint,
+} from '../types/blueprints';
+
+const character = (id: string, role: string): CharacterBlueprint => ({
+  id,
+  name: id,
+  role,
+  view: { default: {} },
+  identity: { personality: '', background: '', speaking_style: '' },
+  voice: {},
+  inventory: [],
+});
+
+const scene = (
+  id: string,
+  goals: GoalBlueprint[],
+  characters = ['mc', 'riley']
+): SceneBlueprint => ({
+  id,
+  title: id,
+  view: { default: {} },
+  prompt: '',
+  characters,
+  goals,
+});
+
+const befriendRiley: GoalBlueprint = {
+  id: 'befriend_riley',
+  character_id: 'riley',
+  description: 'Befriend Riley',
+  on_complete: { transition_to: 'scene_2', give_items: ['key'] },
+};
+
+const byId = <T extends { id: string }>(...entries: T[]) =>
+  new Map(entries.map((entry) => [entry.id, entry]));
+
+/** A small, fully consistent game: one route, one chapter, two scenes */
+function testSet(patch: Partial<BlueprintSet> = {}): BlueprintSet {
+  return {
+    language: 'en_US',
+    game: {
+      id: 'test',
+      title: 'Test',
+      version: '1.0.0',
+      description: '',
+      authors: [],
+      player_character_id: 'mc',
+      routes: ['main_route'],
+      starting_route: 'main_route',
+      theme: 'default',
+    },
+    characters: byId(character('mc', 'player'), character('riley', 'npc')),
+    scenes: byId(scene('scene_1', [befriendRiley]), scene('scene_2', [])),
+    chapters: byId<ChapterBlueprint>({
+      id: 'chapter_1',
+      title: 'Chapter 1',
+      intro: '',
+      scenes: ['scene_1', 'scene_2'],
+    }),
+    routes: byId<RouteBlueprint>({
+      id: 'main_route',
+      title: 'Main',
+      description: '',
+      chapters: ['chapter_1'],
+      starting_chapter: 'chapter_1',
+    }),
+    items: byId<ItemBlueprint>({ id: 'key', name: 'Key', description: '', image: {} }),
+    themes: byId({ id: 'default' } as ThemeBlueprint),
+    ...patch,
+  };
+}
+
+const validate = (set: BlueprintSet) => new BlueprintValidator().validate(set);
+
+describe('BlueprintValidator', () => {
+  it('passes a game whose references all resolve', () => {
+    expect(validate(testSet())).toEqual({ errors: [], warnings: [] });
+  });
+
+  it('reports unknown scenes in chapters and goal transitions', () => {
+    const { errors } = validate(
+      testSet({
+        chapters: byId<ChapterBlueprint>({
+          id: 'chapter_1',
+          title: 'Chapter 1',
+          intro: '',
+          scenes: ['scene_1', 'scene_2', 'scene_9'],
+        }),
+        scenes: byId(
+          scene('scene_1', [{ ...befriendRiley, on_complete: { transition_to: 'nowhere' } }]),
+          scene('scene_2', [])
+        ),
+      })
+    );
+
+    expect(errors).toContainEqual(
+      expect.objectContaining({
+        file: 'en_US/chapters.json',
+        path: 'chapter_1.scenes[2]',
+        message: 'Unknown scene "scene_9"',
+      })
+    );
+    expect(errors).toContainEqual(
+      expect.objectContaining({
+        file: 'en_US/scenes/scene_1.json',
+        message: 'Unknown scene "nowhere"',
+      })
+    );
+  });
+
+  it('reports unknown characters in scenes and goals', () => {
+    const { errors } = validate(
+      testSet({
+        scenes: byId(
+          scene(
+            'scene_1',
+            [{ ...befriendRiley, character_id: 'stranger' }],
+            ['mc', 'riley', 'ghost']
+          ),
+          scene('scene_2', [])
+        ),
+      })
+    );
+
+    expect(errors).toContainEqual(
+      expect.objectContaining({ path: 'characters[2]', message: 'Unknown character "ghost"' })
+    );
+    expect(errors).toContainEqual(
+      expect.objectContaining({
+        path: 'goals[0].character_id',
+        message: 'Unknown character "stranger"',
+      })
+    );
+  });
+
+  it('reports unknown items given by goals', () => {
+    const { errors } = validate(
+      testSet({
+        scenes: byId(
+          scene('scene_1', [
+            {
+              ...befriendRiley,
+              on_complete: { transition_to: 'scene_2', give_items: ['key', 'map'] },
+            },
+          ]),
+          scene('scene_2', [])
+        ),
+      })
+    );
+
+    expect(errors).toEqual([
+      expect.objectContaining({
+        file: 'en_US/scenes/scene_1.json',
+        path: 'goals[0].on_complete.give_items[1]',
+        message: 'Unknown item "map"',
+      }),
+    ]);
+  });
+
+  it('warns about conditions that refer to unknown goals and items', () => {
+    const { errors, warnings } = validate(
+      testSet({
+        scenes: byId(
+          scene('scene_1', [
+            {
+              ...befriendRiley,
+              on_complete: {
+                transition_to: [
+                  { to: 'scene_2', when: "completed_goal('lost_goal') && has_item('map')" },
+                  { to: 'scene_2' },
+                ],
+              },
+            },
+          ]),
+          scene('scene_2', [])
+        ),
+      })
+    );
+
+    expect(errors).toEqual([]);
+    expect(warnings.map((w) => w.message)).toEqual([
+      'Condition refers to unknown goal "lost_goal"',
+      'Condition refers to unknown item "map"',
+    ]);
+  });
+
+  it('reports a player character that is missing or not a player', () => {
+    const missing = validate(
+      testSet({ game: { ...testSet().game, player_character_id: 'nobody' } })
+    );
+    expect(missing.errors).toContainEqual(
+      expect.objectContaining({
+        path: 'player_character_id',
+        message: 'Unknown character "nobody"',
+      })
+    );
+
+    const npc = validate(testSet({ game: { ...testSet().game, player_character_id: 'riley' } }));
+    expect(npc.warnings).toContainEqual(
+      expect.objectContaining({
+        path: 'player_character_id',
+        message: 'Character "riley" has role "npc" instead of "player"',
+      })
+    );
+  });
+});
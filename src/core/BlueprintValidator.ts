@@ -0,0 +1,492 @@
+import {
+  CharacterBlueprint,
+  SceneBlueprint,
+  ChapterBlueprint,
+  RouteBlueprint,
+  ItemBlueprint,
+  ThemeBlueprint,
+  GameBlueprint,
+  SceneTransition,
+} from '../types/blueprints';
+import { ValidationIssue, ValidationReport, ValidationSeverity } from '../types/validation';
+import {
+  chapterSceneIds,
+  sceneEntryCondition,
+  sceneEntryId,
+  transitionTargets,
+} from '../utils/branching';
+import { findVariable, variableValueError } from '../utils/variables';
+import { ConditionNode, conditionReferences, parseCondition } from './ConditionEvaluator';
+
+export interface BlueprintSet {
+  language: string;
+  game: GameBlueprint;
+  characters: ReadonlyMap<string, CharacterBlueprint>;
+  scenes: ReadonlyMap<string, SceneBlueprint>;
+  chapters: ReadonlyMap<string, ChapterBlueprint>;
+  routes: ReadonlyMap<string, RouteBlueprint>;
+  items: ReadonlyMap<string, ItemBlueprint>;
+  themes: ReadonlyMap<string, ThemeBlueprint>;
+}
+
+export class BlueprintValidationError extends Error {
+  constructor(public readonly report: ValidationReport) {
+    super(formatValidationReport(report));
+    this.name = 'BlueprintValidationError';
+  }
+}
+
+export function formatValidationReport(report: ValidationReport): string {
+  const formatIssue = (issue: ValidationIssue) =>
+    `  ${issue.file}${issue.path ? ` (${issue.path})` : ''}: ${issue.message}`;
+
+  const lines = [
+    `Blueprint validation found ${report.errors.length} error(s) and ${report.warnings.length} warning(s)`,
+  ];
+  if (report.errors.length > 0) {
+    lines.push('Errors:', ...report.errors.map(formatIssue));
+  }
+  if (report.warnings.length > 0) {
+    lines.push('Warnings:', ...report.warnings.map(formatIssue));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Checks every cross-reference between loaded blueprints (game → routes → chapters → scenes →
+ * characters/items) so broken ids are reported at load time instead of mid-play.
+ */
+export class BlueprintValidator {
+  private issues: ValidationIssue[] = [];
+
+  validate(set: BlueprintSet): ValidationReport {
+    this.issues = [];
+
+    this.validateGame(set);
+    this.validateRoutes(set);
+    this.validateChapters(set);
+    this.validateScenes(set);
+    this.validateCharacters(set);
+    this.validateItems(set);
+
+    const report: ValidationReport = {
+      errors: this.issues.filter((i) => i.severity === 'error'),
+      warnings: this.issues.filter((i) => i.severity === 'warning'),
+    };
+    this.issues = [];
+    return report;
+  }
+
+  private report(severity: ValidationSeverity, file: string, path: string, message: string) {
+    this.issues.push({ severity, file, path, message });
+  }
+
+  private validateGame(set: BlueprintSet): void {
+    const { game } = set;
+    const file = 'game.json';
+
+    const player = set.characters.get(game.player_character_id);
+    if (!player) {
+      this.report(
+        'error',
+        file,
+        'player_character_id',
+        `Unknown character "${game.player_character_id}"`
+      );
+    } else if (player.role !== 'player') {
+      this.report(
+        'warning',
+        file,
+        'player_character_id',
+        `Character "${player.id}" has role "${player.role}" instead of "player"`
+      );
+    }
+
+    game.routes.forEach((routeId, i) => {
+      if (!set.routes.has(routeId)) {
+        this.report('error', file, `routes[${i}]`, `Unknown route "${routeId}"`);
+      }
+    });
+
+    if (!set.routes.has(game.starting_route)) {
+      this.report('error', file, 'starting_route', `Unknown route "${game.starting_route}"`);
+    } else if (!game.routes.includes(game.starting_route)) {
+      this.report(
+        'warning',
+        file,
+        'starting_route',
+        `Route "${game.starting_route}" is not listed in routes`
+      );
+    }
+
+    if (!set.themes.has(game.theme)) {
+      this.report('error', file, 'theme', `Unknown theme "${game.theme}"`);
+    }
+
+    const declared = new Set<string>();
+    game.variables?.forEach((variable, i) => {
+      const at = `variables[${i}]`;
+      if (declared.has(variable.name)) {
+        this.report('error', file, `${at}.name`, `Duplicate variable "${variable.name}"`);
+      }
+      declared.add(variable.name);
+
+      const bounded = variable.min !== undefined || variable.max !== undefined;
+      if (bounded && variable.type !== 'number') {
+        this.report('error', file, at, 'min and max only apply to number variables');
+      } else if (variable.min !== undefined && variable.max !== undefined) {
+        if (variable.min > variable.max) {
+          this.report('error', file, at, `min (${variable.min}) is above max (${variable.max})`);
+        }
+      }
+
+      const error = variableValueError(variable, variable.default);
+      if (error) this.report('error', file, `${at}.default`, error);
+    });
+
+    for (const [name, value] of Object.entries(game.initial_state?.vars ?? {})) {
+      const path = `initial_state.vars.${name}`;
+      const variable = findVariable(game, name);
+      if (!variable) {
+        this.report('warning', file, path, `Variable "${name}" is not declared in variables`);
+        continue;
+      }
+      const error = variableValueError(variable, value);
+      if (error) this.report('error', file, path, error);
+    }
+
+    game.initial_state?.unlocked_routes?.forEach((routeId, i) => {
+      if (!set.routes.has(routeId)) {
+        this.report(
+          'error',
+          file,
+          `initial_state.unlocked_routes[${i}]`,
+          `Unknown route "${routeId}"`
+        );
+      }
+    });
+  }
+
+  private validateRoutes(set: BlueprintSet): void {
+    const file = `${set.language}/routes.json`;
+
+    for (const route of set.routes.values()) {
+      const at = (path: string) => `${route.id}.${path}`;
+
+      route.chapters.forEach((chapterId, i) => {
+        if (!set.chapters.has(chapterId)) {
+          this.report('error', file, at(`chapters[${i}]`), `Unknown chapter "${chapterId}"`);
+        }
+      });
+
+      if (!set.chapters.has(route.starting_chapter)) {
+        this.report(
+          'error',
+          file,
+          at('starting_chapter'),
+          `Unknown chapter "${route.starting_chapter}"`
+        );
+      } else if (!route.chapters.includes(route.starting_chapter)) {
+        this.report(
+          'warning',
+          file,
+          at('starting_chapter'),
+          `Chapter "${route.starting_chapter}" is not listed in chapters`
+        );
+      }
+
+      for (const key of ['unlocked_routes', 'completed_routes'] as const) {
+        route.requirements?.[key]?.forEach((routeId, i) => {
+          if (!set.routes.has(routeId)) {
+            this.report(
+              'error',
+              file,
+              at(`requirements.${key}[${i}]`),
+              `Unknown route "${routeId}"`
+            );
+          }
+        });
+      }
+
+      Object.keys(route.requirements?.affinity ?? {}).forEach((charId) => {
+        if (!set.characters.has(charId)) {
+          this.report(
+            'error',
+            file,
+            at(`requirements.affinity.${charId}`),
+            `Unknown character "${charId}"`
+          );
+        }
+      });
+
+      if (!set.game.routes.includes(route.id)) {
+        this.report('warning', file, route.id, 'Route is not listed in game.json routes');
+      }
+    }
+  }
+
+  private checkTransition(
+    set: BlueprintSet,
+    file: string,
+    path: string,
+    transition: SceneTransition | undefined
+  ): void {
+    if (transition === undefined) return;
+    if (typeof transition === 'string') {
+      if (!set.scenes.has(transition)) {
+        this.report('error', file, path, `Unknown scene "${transition}"`);
+      }
+      return;
+    }
+
+    transition.forEach((option, i) => {
+      if (!set.scenes.has(option.to)) {
+        this.report('error', file, `${path}[${i}].to`, `Unknown scene "${option.to}"`);
+      }
+      this.checkCondition(set, file, `${path}[${i}].when`, option.when);
+    });
+  }
+
+  /**
+   * Warn about ids a condition refers to that don't exist. Syntax errors are already reported
+   * by the schema check when the blueprint is loaded.
+   */
+  private checkCondition(
+    set: BlueprintSet,
+    file: string,
+    path: string,
+    when: string | undefined
+  ): void {
+    if (when === undefined) return;
+
+    let node: ConditionNode;
+    try {
+      node = parseCondition(when);
+    } catch {
+      return;
+    }
+
+    const lookups: Partial<Record<string, [kind: string, exists: (id: string) => boolean]>> = {
+      affinity: ['character', (id) => set.characters.has(id)],
+      has_item: ['item', (id) => set.items.has(id)],
+      completed_route: ['route', (id) => set.routes.has(id)],
+      route_unlocked: ['route', (id) => set.routes.has(id)],
+      completed_goal: ['goal', (id) => this.hasGoal(set, id)],
+      vars: ['variable', (id) => findVariable(set.game, id) !== undefined],
+    };
+
+    for (const { scope, id } of conditionReferences(node)) {
+      const lookup = lookups[scope];
+      if (lookup && !lookup[1](id)) {
+        this.report('warning', file, path, `Condition refers to unknown ${lookup[0]} "${id}"`);
+      }
+    }
+  }
+
+  private hasGoal(set: BlueprintSet, goalId: string): boolean {
+    return Array.from(set.scenes.values()).some((scene) =>
+      scene.goals.some((goal) => goal.id === goalId)
+    );
+  }
+
+  private validateChapters(set: BlueprintSet): void {
+    const file = `${set.language}/chapters.json`;
+    const referencedChapters = new Set(
+      Array.from(set.routes.values()).flatMap((route) => route.chapters)
+    );
+
+    for (const chapter of set.chapters.values()) {
+      if (chapter.scenes.length === 0) {
+        this.report('error', file, `${chapter.id}.scenes`, 'Chapter has no scenes');
+      }
+
+      chapter.scenes.forEach((entry, i) => {
+        const sceneId = sceneEntryId(entry);
+        if (!set.scenes.has(sceneId)) {
+          this.report('error', file, `${chapter.id}.scenes[${i}]`, `Unknown scene "${sceneId}"`);
+        }
+        this.checkCondition(
+          set,
+          file,
+          `${chapter.id}.scenes[${i}].when`,
+          sceneEntryCondition(entry)
+        );
+      });
+
+      if (!referencedChapters.has(chapter.id)) {
+        this.report('warning', file, chapter.id, 'Chapter is not part of any route');
+      }
+    }
+  }
+
+  private validateScenes(set: BlueprintSet): void {
+    const reachableScenes = new Set(Array.from(set.chapters.values()).flatMap(chapterSceneIds));
+    for (const scene of set.scenes.values()) {
+      const transitions = [
+        ...scene.goals.map((goal) => goal.on_complete.transition_to),
+        ...Object.values(scene.transitions ?? {}),
+      ];
+      transitions.flatMap(transitionTargets).forEach((sceneId) => reachableScenes.add(sceneId));
+    }
+
+    for (const [id, scene] of set.scenes) {
+      const file = `${set.language}/scenes/${id}.json`;
+
+      if (scene.id !== id) {
+        this.report('error', file, 'id', `Expected id "${id}" but found "${scene.id}"`);
+      }
+
+      scene.characters.forEach((charId, i) => {
+        if (!set.characters.has(charId)) {
+          this.report('error', file, `characters[${i}]`, `Unknown character "${charId}"`);
+        }
+      });
+
+      const hasNPC = scene.characters.some((charId) => {
+        const char = set.characters.get(charId);
+        return char && char.role !== 'player';
+      });
+      if (!hasNPC) {
+        this.report('error', file, 'characters', 'Scene has no NPC characters');
+      }
+
+      const exchange = scene.opening_exchange;
+      if (exchange) {
+        if (new Set(exchange.participants).size < 2) {
+          this.report(
+            'error',
+            file,
+            'opening_exchange.participants',
+            'An exchange needs at least two different characters'
+          );
+        }
+        exchange.participants.forEach((charId, i) => {
+          const path = `opening_exchange.participants[${i}]`;
+          if (!scene.characters.includes(charId)) {
+            this.report('error', file, path, `Character "${charId}" is not part of this scene`);
+          } else if (set.characters.get(charId)?.role === 'player') {
+            this.report('error', file, path, 'The player character cannot take part in exchanges');
+          }
+        });
+      }
+
+      const goalIds = new Set<string>();
+      scene.goals.forEach((goal, i) => {
+        const at = `goals[${i}]`;
+
+        if (goalIds.has(goal.id)) {
+          this.report('warning', file, `${at}.id`, `Duplicate goal id "${goal.id}"`);
+        }
+        goalIds.add(goal.id);
+
+        if (goal.character_id) {
+          if (!set.characters.has(goal.character_id)) {
+            this.report(
+              'error',
+              file,
+              `${at}.character_id`,
+              `Unknown character "${goal.character_id}"`
+            );
+          } else if (!scene.characters.includes(goal.character_id)) {
+            this.report(
+              'warning',
+              file,
+              `${at}.character_id`,
+              `Character "${goal.character_id}" is not part of this scene`
+            );
+          }
+        }
+
+        this.checkCondition(set, file, `${at}.when`, goal.when);
+
+        if (goal.trigger && !set.items.has(goal.trigger.item_id)) {
+          this.report(
+            'error',
+            file,
+            `${at}.trigger.item_id`,
+            `Unknown item "${goal.trigger.item_id}"`
+          );
+        }
+
+        const { transition_to, give_items, unlock_route } = goal.on_complete;
+        this.checkTransition(set, file, `${at}.on_complete.transition_to`, transition_to);
+        give_items?.forEach((itemId, j) => {
+          if (!set.items.has(itemId)) {
+            this.report(
+              'error',
+              file,
+              `${at}.on_complete.give_items[${j}]`,
+              `Unknown item "${itemId}"`
+            );
+          }
+        });
+        if (unlock_route && !set.routes.has(unlock_route)) {
+          this.report(
+            'error',
+            file,
+            `${at}.on_complete.unlock_route`,
+            `Unknown route "${unlock_route}"`
+          );
+        }
+      });
+
+      for (const [outcome, transition] of Object.entries(scene.transitions ?? {})) {
+        this.checkTransition(set, file, `transitions.${outcome}`, transition);
+      }
+
+      if (!reachableScenes.has(id)) {
+        this.report(
+          'warning',
+          file,
+          'id',
+          'Scene is not part of any chapter and nothing transitions to it'
+        );
+      }
+    }
+  }
+
+  private validateCharacters(set: BlueprintSet): void {
+    for (const [id, char] of set.characters) {
+      const file = `${set.language}/characters/${id}.json`;
+
+      if (char.id !== id) {
+        this.report('error', file, 'id', `Expected id "${id}" but found "${char.id}"`);
+      }
+
+      Object.keys(char.identity.relationships ?? {}).forEach((otherId) => {
+        if (!set.characters.has(otherId)) {
+          this.report(
+            'warning',
+            file,
+            `identity.relationships.${otherId}`,
+            `Unknown character "${otherId}"`
+          );
+        }
+      });
+
+      char.inventory.forEach((item, i) => {
+        if (!set.items.has(item.id)) {
+          this.report(
+            'warning',
+            file,
+            `inventory[${i}]`,
+            `Item "${item.id}" is not listed in items/index.json`
+          );
+        }
+      });
+    }
+  }
+
+  private validateItems(set: BlueprintSet): void {
+    for (const [id, item] of set.items) {
+      if (item.id !== id) {
+        this.report(
+          'error',
+          `${set.language}/items/${id}.json`,
+          'id',
+          `Expected id "${id}" but found "${item.id}"`
+        );
+      }
+    }
+  }
+}
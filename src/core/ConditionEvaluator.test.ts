@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ConditionEvaluator,
+  ConditionSyntaxError,
+  conditionReferences,
+  evaluateCondition,
+  parseCondition,
+} from './ConditionEvaluator';
+import { testGameState } from '../test/fixtures';
+
+const state = testGameState({
+  flags: { met_riley: true, lied: false },
+  affinity: { riley: 6 },
+  vars: { trust: 3, mood: 'calm', alarm: false },
+  inventory: [{ id: 'badge', name: 'Badge', description: '', image: { uri: '' } }],
+  completed_goals: ['befriend_riley'],
+  completed_routes: ['prologue'],
+  unlocked_routes: ['main_route'],
+});
+
+const evaluate = (source: string) => evaluateCondition(parseCondition(source), state);
+
+describe('parseCondition', () => {
+  it('binds && tighter than || and comparisons tighter than &&', () => {
+    expect(parseCondition('flags.a || flags.b && affinity.c > 1')).toEqual({
+      type: 'logical',
+      operator: '||',
+      left: { type: 'state', scope: 'flags', key: 'a' },
+      right: {
+        type: 'logical',
+        operator: '&&',
+        left: { type: 'state', scope: 'flags', key: 'b' },
+        right: {
+          type: 'compare',
+          operator: '>',
+          left: { type: 'state', scope: 'affinity', key: 'c' },
+          right: { type: 'literal', value: 1 },
+        },
+      },
+    });
+  });
+
+  it('applies ! to the operand right after it', () => {
+    expect(parseCondition('!flags.a == false')).toMatchObject({
+      type: 'compare',
+      left: { type: 'not', operand: { type: 'state', key: 'a' } },
+    });
+  });
+
+  it.each([
+    ['', 'Empty condition at column 1'],
+    ['flags.a &&', 'Unexpected end of condition at column 11'],
+    ['(flags.a', 'Expected ")" but found end of condition at column 9'],
+    ["has_item('key'", 'Expected ")" but found end of condition at column 15'],
+    ['has_item(key)', "has_item() takes a quoted id, e.g. has_item('some_id') at column 10"],
+    ["owns('key')", 'Unknown function "owns"'],
+    ['stats.hp > 1', 'Unknown name "stats"'],
+    ['flags.', 'Expected a name after "flags." at column 7'],
+    ["vars.mood == 'calm", 'Unterminated string at column 14'],
+    ['flags.a & flags.b', 'Unexpected character "&" at column 9'],
+    ['flags.a flags.b', 'Unexpected "flags" at column 9'],
+  ])('rejects %j', (source, message) => {
+    expect(() => parseCondition(source)).toThrow(ConditionSyntaxError);
+    expect(() => parseCondition(source)).toThrow(message);
+  });
+});
+
+describe('evaluateCondition', () => {
+  it('reads flags, affinity and vars', () => {
+    expect(evaluate('flags.met_riley')).toBe(true);
+    expect(evaluate('affinity.riley')).toBe(6);
+    expect(evaluate("vars.mood == 'calm'")).toBe(true);
+  });
+
+  it('defaults missing keys per scope', () => {
+    expect(evaluate('flags.unknown')).toBe(false);
+    expect(evaluate('affinity.stranger')).toBe(0);
+    expect(evaluate('vars.unset')).toBe(null);
+  });
+
+  it('ignores keys inherited from Object.prototype', () => {
+    expect(evaluate('flags.constructor')).toBe(false);
+    expect(evaluate('affinity.toString')).toBe(0);
+    expect(evaluate('vars.hasOwnProperty')).toBe(null);
+  });
+
+  it('keeps stored falsy values', () => {
+    expect(evaluate('flags.lied')).toBe(false);
+    expect(evaluate('vars.alarm == false')).toBe(true);
+  });
+
+  it.each([
+    ['affinity.riley >= 6', true],
+    ['affinity.riley > 6', false],
+    ['affinity.riley < 10', true],
+    ['affinity.riley <= 5', false],
+    ['vars.trust == 3', true],
+    ['vars.trust != 3', false],
+    ['affinity.riley > -1', true],
+    // Ordering only applies to numbers
+    ["vars.mood > 'a'", false],
+    ["vars.trust == '3'", false],
+  ])('compares %s', (source, expected) => {
+    expect(evaluate(source)).toBe(expected);
+  });
+
+  it('combines with precedence and parentheses', () => {
+    expect(evaluate('flags.lied && flags.met_riley || true')).toBe(true);
+    expect(evaluate('flags.lied && (flags.met_riley || true)')).toBe(false);
+    expect(evaluate('!flags.lied && !!flags.met_riley')).toBe(true);
+  });
+
+  it('calls the state functions', () => {
+    expect(evaluate("has_item('badge') && !has_item('key')")).toBe(true);
+    expect(evaluate("completed_goal('befriend_riley')")).toBe(true);
+    expect(evaluate('completed_route("prologue") && route_unlocked("main_route")')).toBe(true);
+    expect(evaluate("route_unlocked('secret')")).toBe(false);
+  });
+});
+
+describe('conditionReferences', () => {
+  it('lists every state key and function argument', () => {
+    expect(conditionReferences(parseCondition("flags.a && (vars.b > 1 || has_item('c'))"))).toEqual(
+      [
+        { scope: 'flags', id: 'a' },
+        { scope: 'vars', id: 'b' },
+        { scope: 'has_item', id: 'c' },
+      ]
+    );
+  });
+});
+
+describe('ConditionEvaluator', () => {
+  const evaluator = new ConditionEvaluator();
+
+  it('treats a missing clause as true', () => {
+    expect(evaluator.check(undefined, state)).toBe(true);
+    expect(evaluator.check('affinity.riley', state)).toBe(true);
+  });
+
+  it('resolves the first transition whose condition holds', () => {
+    expect(evaluator.resolveTransition('scene_2', state)).toBe('scene_2');
+    expect(
+      evaluator.resolveTransition(
+        [
+          { to: 'bad_end', when: 'flags.lied' },
+          { to: 'good_end', when: 'flags.met_riley' },
+          { to: 'default' },
+        ],
+        state
+      )
+    ).toBe('good_end');
+    expect(evaluator.resolveTransition([{ to: 'bad_end', when: 'flags.lied' }], state)).toBe(
+      undefined
+    );
+  });
+});
@@ -0,0 +1,368 @@
+import { SceneTransition } from '../types/blueprints';
+import { GameState } from '../types/state';
+
+/**
+ * A small expression language for blueprint `when` clauses, e.g.
+ * `flags.met_riley && affinity.riley >= 5 && has_item('badge')`.
+ *
+ * - State: `flags.<id>` (unset is false), `affinity.<character>` (unset is 0), `vars.<name>`
+ * - Functions: `has_item('id')`, `completed_goal('id')`, `completed_route('id')`,
+ *   `route_unlocked('id')`
+ * - Literals: numbers, 'single' or "double" quoted strings, `true`, `false`
+ * - Operators: `!`, `&&`, `||`, `==`, `!=`, `<`, `<=`, `>`, `>=` and parentheses
+ *
+ * Expressions are parsed into a tree and interpreted; nothing is ever passed to `eval`.
+ */
+
+export type ConditionValue = boolean | number | string | null;
+
+export type ConditionScope = 'flags' | 'affinity' | 'vars';
+
+export type ConditionFunction =
+  | 'has_item'
+  | 'completed_goal'
+  | 'completed_route'
+  | 'route_unlocked';
+
+type CompareOperator = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+export type ConditionNode =
+  | { type: 'literal'; value: ConditionValue }
+  | { type: 'state'; scope: ConditionScope; key: string }
+  | { type: 'call'; name: ConditionFunction; arg: string }
+  | { type: 'not'; operand: ConditionNode }
+  | { type: 'logical'; operator: '&&' | '||'; left: ConditionNode; right: ConditionNode }
+  | { type: 'compare'; operator: CompareOperator; left: ConditionNode; right: ConditionNode };
+
+const SCOPES: ConditionScope[] = ['flags', 'affinity', 'vars'];
+const FUNCTIONS: ConditionFunction[] = [
+  'has_item',
+  'completed_goal',
+  'completed_route',
+  'route_unlocked',
+];
+const COMPARE_OPERATORS: CompareOperator[] = ['==', '!=', '<', '<=', '>', '>='];
+
+/**
+ * Thrown for malformed expressions. `column` is 1-based.
+ */
+export class ConditionSyntaxError extends Error {
+  constructor(
+    message: string,
+    public column: number
+  ) {
+    super(`${message} at column ${column}`);
+    this.name = 'ConditionSyntaxError';
+  }
+}
+
+interface Token {
+  kind: 'number' | 'string' | 'identifier' | 'operator' | 'end';
+  text: string;
+  /** 0-based offset into the source */
+  start: number;
+}
+
+const OPERATORS = ['&&', '||', '==', '!=', '<=', '>=', '<', '>', '!', '(', ')', ',', '.', '-'];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const rest = source.slice(pos);
+
+    const space = rest.match(/^\s+/);
+    if (space) {
+      pos += space[0].length;
+      continue;
+    }
+
+    const number = rest.match(/^\d+(\.\d+)?/);
+    if (number) {
+      tokens.push({ kind: 'number', text: number[0], start: pos });
+      pos += number[0].length;
+      continue;
+    }
+
+    const identifier = rest.match(/^[A-Za-z_][A-Za-z0-9_]*/);
+    if (identifier) {
+      tokens.push({ kind: 'identifier', text: identifier[0], start: pos });
+      pos += identifier[0].length;
+      continue;
+    }
+
+    const quote = rest[0];
+    if (quote === "'" || quote === '"') {
+      const end = source.indexOf(quote, pos + 1);
+      if (end === -1) throw new ConditionSyntaxError('Unterminated string', pos + 1);
+      tokens.push({ kind: 'string', text: source.slice(pos + 1, end), start: pos });
+      pos = end + 1;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => rest.startsWith(op));
+    if (!operator) throw new ConditionSyntaxError(`Unexpected character "${rest[0]}"`, pos + 1);
+    tokens.push({ kind: 'operator', text: operator, start: pos });
+    pos += operator.length;
+  }
+
+  tokens.push({ kind: 'end', text: '', start: source.length });
+  return tokens;
+}
+
+/**
+ * Recursive descent parser. Precedence from loosest to tightest: `||`, `&&`, comparisons, `!`.
+ */
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): ConditionNode {
+    if (this.peek().kind === 'end') this.fail('Empty condition');
+    const node = this.parseOr();
+    if (this.peek().kind !== 'end') this.fail(`Unexpected "${this.peek().text}"`);
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private fail(message: string, token: Token = this.peek()): never {
+    throw new ConditionSyntaxError(message, token.start + 1);
+  }
+
+  private isOperator(text: string): boolean {
+    const token = this.peek();
+    return token.kind === 'operator' && token.text === text;
+  }
+
+  private expectOperator(text: string): void {
+    if (!this.isOperator(text)) {
+      const found = this.peek().kind === 'end' ? 'end of condition' : `"${this.peek().text}"`;
+      this.fail(`Expected "${text}" but found ${found}`);
+    }
+    this.next();
+  }
+
+  private parseOr(): ConditionNode {
+    let left = this.parseAnd();
+    while (this.isOperator('||')) {
+      this.next();
+      left = { type: 'logical', operator: '||', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ConditionNode {
+    let left = this.parseComparison();
+    while (this.isOperator('&&')) {
+      this.next();
+      left = { type: 'logical', operator: '&&', left, right: this.parseComparison() };
+    }
+    return left;
+  }
+
+  private parseComparison(): ConditionNode {
+    const left = this.parseUnary();
+    const token = this.peek();
+    if (token.kind === 'operator' && COMPARE_OPERATORS.includes(token.text as CompareOperator)) {
+      this.next();
+      return {
+        type: 'compare',
+        operator: token.text as CompareOperator,
+        left,
+        right: this.parseUnary(),
+      };
+    }
+    return left;
+  }
+
+  private parseUnary(): ConditionNode {
+    if (this.isOperator('!')) {
+      this.next();
+      return { type: 'not', operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ConditionNode {
+    const token = this.next();
+
+    switch (token.kind) {
+      case 'number':
+        return { type: 'literal', value: Number(token.text) };
+
+      case 'string':
+        return { type: 'literal', value: token.text };
+
+      case 'identifier':
+        return this.parseName(token);
+
+      case 'operator':
+        if (token.text === '(') {
+          const node = this.parseOr();
+          this.expectOperator(')');
+          return node;
+        }
+        if (token.text === '-' && this.peek().kind === 'number') {
+          return { type: 'literal', value: -Number(this.next().text) };
+        }
+        return this.fail(`Unexpected "${token.text}"`, token);
+
+      case 'end':
+        return this.fail('Unexpected end of condition', token);
+    }
+  }
+
+  private parseName(token: Token): ConditionNode {
+    const name = token.text;
+    if (name === 'true' || name === 'false') return { type: 'literal', value: name === 'true' };
+
+    if (this.isOperator('(')) {
+      if (!FUNCTIONS.includes(name as ConditionFunction)) {
+        this.fail(`Unknown function "${name}" (expected ${FUNCTIONS.join(', ')})`, token);
+      }
+      this.next();
+      const arg = this.next();
+      if (arg.kind !== 'string') {
+        this.fail(`${name}() takes a quoted id, e.g. ${name}('some_id')`, arg);
+      }
+      this.expectOperator(')');
+      return { type: 'call', name: name as ConditionFunction, arg: arg.text };
+    }
+
+    if (!SCOPES.includes(name as ConditionScope)) {
+      this.fail(`Unknown name "${name}" (expected ${SCOPES.join(', ')} or a function)`, token);
+    }
+    this.expectOperator('.');
+    const key = this.next();
+    if (key.kind !== 'identifier') this.fail(`Expected a name after "${name}."`, key);
+    return { type: 'state', scope: name as ConditionScope, key: key.text };
+  }
+}
+
+/**
+ * Parse an expression, throwing ConditionSyntaxError when it is malformed.
+ */
+export function parseCondition(source: string): ConditionNode {
+  return new Parser(tokenize(source)).parse();
+}
+
+function compare(operator: CompareOperator, left: ConditionValue, right: ConditionValue): boolean {
+  if (operator === '==') return left === right;
+  if (operator === '!=') return left !== right;
+  // Ordering only makes sense between numbers
+  if (typeof left !== 'number' || typeof right !== 'number') return false;
+  switch (operator) {
+    case '<':
+      return left < right;
+    case '<=':
+      return left <= right;
+    case '>':
+      return left > right;
+    case '>=':
+      return left >= right;
+  }
+}
+
+/**
+ * Evaluate a parsed expression against the game state.
+ */
+export function evaluateCondition(node: ConditionNode, state: GameState): ConditionValue {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+
+    case 'state': {
+      // Own keys only, so names like `flags.constructor` don't reach Object.prototype
+      const values: Record<string, ConditionValue> = state[node.scope];
+      if (Object.hasOwn(values, node.key)) return values[node.key];
+      return node.scope === 'flags' ? false : node.scope === 'affinity' ? 0 : null;
+    }
+
+    case 'call':
+      switch (node.name) {
+        case 'has_item':
+          return state.inventory.some((item) => item.id === node.arg);
+        case 'completed_goal':
+          return state.completed_goals.includes(node.arg);
+        case 'completed_route':
+          return state.completed_routes.includes(node.arg);
+        case 'route_unlocked':
+          return state.unlocked_routes.includes(node.arg);
+      }
+      break;
+
+    case 'not':
+      return !evaluateCondition(node.operand, state);
+
+    case 'logical': {
+      const left = Boolean(evaluateCondition(node.left, state));
+      if (node.operator === '&&') return left && Boolean(evaluateCondition(node.right, state));
+      return left || Boolean(evaluateCondition(node.right, state));
+    }
+
+    case 'compare':
+      return compare(
+        node.operator,
+        evaluateCondition(node.left, state),
+        evaluateCondition(node.right, state)
+      );
+  }
+}
+
+/**
+ * Every state key and function argument an expression refers to, for cross-reference checks.
+ */
+export function conditionReferences(
+  node: ConditionNode
+): Array<{ scope: ConditionScope | ConditionFunction; id: string }> {
+  switch (node.type) {
+    case 'literal':
+      return [];
+    case 'state':
+      return [{ scope: node.scope, id: node.key }];
+    case 'call':
+      return [{ scope: node.name, id: node.arg }];
+    case 'not':
+      return conditionReferences(node.operand);
+    case 'logical':
+    case 'compare':
+      return [...conditionReferences(node.left), ...conditionReferences(node.right)];
+  }
+}
+
+/**
+ * Checks `when` clauses against the game state, caching parsed expressions.
+ */
+export class ConditionEvaluator {
+  private cache = new Map<string, ConditionNode>();
+
+  private parse(source: string): ConditionNode {
+    let node = this.cache.get(source);
+    if (!node) {
+      node = parseCondition(source);
+      this.cache.set(source, node);
+    }
+    return node;
+  }
+
+  /** Whether a `when` clause holds; a missing clause always does */
+  check(when: string | undefined, state: GameState): boolean {
+    if (when === undefined) return true;
+    return Boolean(evaluateCondition(this.parse(when), state));
+  }
+
+  /** The target of a transition: the scene id itself, or the first option whose `when` holds */
+  resolveTransition(transition: SceneTransition | undefined, state: GameState): string | undefined {
+    if (typeof transition === 'string') return transition;
+    return transition?.find((option) => this.check(option.when, state))?.to;
+  }
+}
@@ -0,0 +1,277 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { BlueprintRegistry } from './BlueprintRegistry';
+import { GameEngine, PlayerTurn, SceneUpdate } from './GameEngine';
+import { useGameStore } from '../stores/gameStore';
+import { GameBlueprint, ItemBlueprint } from '../types/blueprints';
+import { ChatMessage, LLMProvider } from '../types/llm';
+import { testGameFiles, testGameSource } from '../test/fixtures';
+
+const provider = {
+  name: 'Test',
+  capabilities: { tools: true, streaming: true, jsonMode: true },
+  initialize: async () => {},
+  isReady: async () => true,
+  complete: vi.fn<LLMProvider['complete']>(),
+  stream: vi.fn<LLMProvider['stream']>(),
+} satisfies LLMProvider;
+
+const scene1 = testGameFiles()['blueprints/en_US/scenes/scene_1.json'] as Record<string, unknown>;
+const [befriendRiley] = scene1.goals as Array<Record<string, unknown>>;
+const key = testGameFiles()['blueprints/en_US/items/key.json'] as ItemBlueprint;
+
+/** A reply in which the AI says `content` and makes the tool `calls`, if any */
+function reply(
+  content: string,
+  calls: Array<{ name: string; arguments: string }> = []
+): ChatMessage {
+  const tool_calls = calls.length
+    ? calls.map((call, i) => ({ id: `call_${i + 1}`, type: 'function' as const, function: call }))
+    : undefined;
+  return { role: 'assistant', content, tool_calls };
+}
+
+/** A reply in which the AI says `content` and ends the scene with `args` */
+const endScene = (content: string, args: Record<string, unknown>) =>
+  reply(content, [{ name: 'player2_end_scene', arguments: JSON.stringify(args) }]);
+
+/**
+ * Play scene_1 (without its intro) with `patch` applied: the AI answers with `replies` in order,
+ * and the player takes `turns` in between, until the AI ends the scene
+ */
+async function playScene1(
+  replies: ChatMessage | ChatMessage[],
+  patch: Record<string, unknown> = {},
+  turns: PlayerTurn[] = []
+): Promise<{ updates: SceneUpdate[]; engine: GameEngine }> {
+  const registry = new BlueprintRegistry(
+    testGameSource({
+      'blueprints/en_US/scenes/scene_1.json': { ...scene1, intro: undefined, ...patch },
+    })
+  );
+  await registry.load('en_US');
+  for (const next of [replies].flat()) {
+    provider.stream.mockImplementationOnce(async (_request, onContent) => {
+      if (next.content) onContent(next.content);
+      return next;
+    });
+  }
+
+  const updates: SceneUpdate[] = [];
+  const pending = [...turns];
+  const engine = new GameEngine(registry, useGameStore, provider, (update) => updates.push(update));
+  engine.setContinueHandler((resolve) => resolve());
+  engine.setPlayerInputHandler((resolve) => resolve(pending.shift()!));
+  await engine.startScene('scene_1');
+  return { updates, engine };
+}
+
+/** The user messages of the conversation the AI was last sent, in order */
+function playerMessages(): string[] {
+  const [request] = provider.stream.mock.lastCall!;
+  return (request.messages as { role: string; content: string }[])
+    .filter((message) => message.role === 'user')
+    .map((message) => message.content);
+}
+
+describe('GameEngine', () => {
+  beforeEach(() => {
+    provider.stream.mockReset();
+    useGameStore.getState().newGame(testGameFiles()['blueprints/game.json'] as GameBlueprint);
+  });
+
+  it('applies the effects of the completed goal and follows its transition', async () => {
+    const { updates } = await playScene1(
+      endScene("Let's be friends.", { result: 'success', goal_id: 'befriend_riley' }),
+      {
+        goals: [
+          {
+            ...befriendRiley,
+            on_complete: { ...(befriendRiley.on_complete as object), unlock_route: 'main_route' },
+          },
+        ],
+      }
+    );
+
+    expect(updates).toContainEqual(
+      expect.objectContaining({
+        type: 'dialogue_chunk',
+        speaker_id: 'riley',
+        text: "Let's be friends.",
+      })
+    );
+    expect(updates.at(-1)).toEqual({
+      type: 'scene_transition',
+      next_scene: 'scene_2',
+      result: 'success',
+      goal_id: 'befriend_riley',
+    });
+    const state = useGameStore.getState();
+    expect(state.completed_goals).toEqual(['befriend_riley']);
+    expect(state.inventory.map((item) => item.id)).toEqual(['key']);
+    expect(state.acquired_items).toEqual([
+      expect.objectContaining({ item_id: 'key', character_id: 'riley' }),
+    ]);
+    expect(state.unlocked_routes).toEqual(['main_route']);
+  });
+
+  it('completes the only goal of a scene that ends successfully without a goal id', async () => {
+    await playScene1(endScene('Bye.', { result: 'success' }));
+
+    expect(useGameStore.getState().completed_goals).toEqual(['befriend_riley']);
+  });
+
+  it('branches on the outcome when no completed goal has a transition', async () => {
+    const { updates } = await playScene1(endScene('Go away.', { result: 'fail' }), {
+      transitions: { success: 'scene_1', fail: 'scene_2' },
+    });
+
+    expect(updates.at(-1)).toEqual({
+      type: 'scene_transition',
+      next_scene: 'scene_2',
+      result: 'fail',
+      goal_id: undefined,
+    });
+    expect(useGameStore.getState().completed_goals).toEqual([]);
+    expect(useGameStore.getState().inventory).toEqual([]);
+  });
+
+  it("prefers the completed goal's transition over the scene's success transition", async () => {
+    const { updates } = await playScene1(
+      endScene('Friends!', { result: 'success', goal_id: 'befriend_riley' }),
+      { transitions: { success: 'scene_1' } }
+    );
+
+    expect(updates.at(-1)).toMatchObject({ type: 'scene_transition', next_scene: 'scene_2' });
+  });
+
+  it('ends the scene when its outcome has no transition', async () => {
+    const { updates } = await playScene1(
+      endScene('Maybe later.', { result: 'neutral', summary: 'Riley left' }),
+      { transitions: { fail: 'scene_2' } }
+    );
+
+    expect(updates.at(-1)).toEqual({
+      type: 'scene_ended',
+      result: 'neutral',
+      summary: 'Riley left',
+      goal_id: undefined,
+    });
+  });
+
+  it('takes a goal item from the NPC holding it instead of copying it', async () => {
+    useGameStore.getState().seedInventory('sam', [key]);
+
+    await playScene1(endScene('Here.', { result: 'success', goal_id: 'befriend_riley' }));
+
+    const state = useGameStore.getState();
+    expect(state.inventory.map((item) => item.id)).toEqual(['key']);
+    expect(state.character_inventories.sam).toEqual([]);
+  });
+
+  it('does not give an item the player already holds', async () => {
+    useGameStore.getState().addItem(key);
+
+    await playScene1(endScene('Here.', { result: 'success', goal_id: 'befriend_riley' }));
+
+    expect(useGameStore.getState().inventory.map((item) => item.id)).toEqual(['key']);
+  });
+
+  describe('item actions', () => {
+    const give: PlayerTurn = { text: 'For you.', item: { action: 'give', item_id: 'key' } };
+
+    beforeEach(() => useGameStore.getState().addItem(key));
+
+    it('hands a given item to the NPC and tells them about it', async () => {
+      await playScene1([reply('Hi.'), endScene('Thanks!', { result: 'neutral' })], {}, [give]);
+
+      const state = useGameStore.getState();
+      expect(state.inventory).toEqual([]);
+      expect(state.character_inventories.riley.map((item) => item.id)).toEqual(['key']);
+      expect(playerMessages()[1]).toBe(
+        "system: the player gives Riley [key] Key: A rusty key. It is now in Riley's inventory\nFor you."
+      );
+    });
+
+    it('keeps a shown or used item with the player', async () => {
+      await playScene1(
+        [reply('Hi.'), reply('Nice key.'), endScene('It opened!', { result: 'neutral' })],
+        {},
+        [
+          { text: '', item: { action: 'show', item_id: 'key' } },
+          { text: 'Watch this.', item: { action: 'use', item_id: 'key' } },
+        ]
+      );
+
+      expect(useGameStore.getState().inventory.map((item) => item.id)).toEqual(['key']);
+      expect(playerMessages().slice(1)).toEqual([
+        'system: the player shows Riley [key] Key: A rusty key',
+        'system: the player uses [key] Key: A rusty key with Riley\nWatch this.',
+      ]);
+    });
+
+    it('completes a goal the item action triggers once the NPC has reacted', async () => {
+      const { updates } = await playScene1(
+        [reply('Hi.'), reply('My old key!')],
+        {
+          goals: [
+            {
+              ...befriendRiley,
+              trigger: { action: 'give', item_id: 'key' },
+              on_complete: { transition_to: 'scene_2' },
+            },
+          ],
+        },
+        [give]
+      );
+
+      expect(playerMessages()[1]).toContain(
+        'system: this achieves goal [befriend_riley]. Riley reacts to it; the scene ends after that reply'
+      );
+      expect(updates).toContainEqual(
+        expect.objectContaining({ type: 'dialogue_chunk', text: 'My old key!' })
+      );
+      expect(updates.at(-1)).toEqual({
+        type: 'scene_transition',
+        next_scene: 'scene_2',
+        result: 'success',
+        goal_id: 'befriend_riley',
+      });
+      expect(useGameStore.getState().completed_goals).toEqual(['befriend_riley']);
+    });
+
+    it('does not trigger a goal with a different action', async () => {
+      await playScene1(
+        [reply('Hi.'), endScene('Nice.', { result: 'neutral' })],
+        {
+          goals: [{ ...befriendRiley, trigger: { action: 'give', item_id: 'key' } }],
+        },
+        [{ text: '', item: { action: 'show', item_id: 'key' } }]
+      );
+
+      expect(useGameStore.getState().completed_goals).toEqual([]);
+    });
+  });
+
+  it('sends rejected tool calls back to the AI and logs them for the turn', async () => {
+    const badCall = reply('', [{ name: 'player2_set_flag', arguments: '{"flag_id":"met_riley"}' }]);
+    const rejection = {
+      tool: 'player2_set_flag',
+      arguments: '{"flag_id":"met_riley"}',
+      errors: ['value is required'],
+    };
+    const { updates, engine } = await playScene1([
+      badCall,
+      endScene('Bye.', { result: 'neutral' }),
+    ]);
+
+    expect(updates).toContainEqual({
+      type: 'tool_call_rejected',
+      speaker_id: 'riley',
+      rejection,
+    });
+    expect(engine.getRejectedToolCalls()).toEqual([rejection]);
+    expect(useGameStore.getState().flags).not.toHaveProperty('met_riley');
+    const [request] = provider.stream.mock.lastCall!;
+    expect(JSON.stringify(request.messages)).toContain('value is required');
+  });
+});
@@ -1,18 +1,27 @@
+import { GoalBlueprint, ItemAction, SceneBlueprint, SceneOutcome } from '../types/blueprints';
 import { SceneModel } from '../types/models';
+import { ChatMessage, ChatToolCall, LLMProvider } from '../types/llm';
+import { ToolCallRejection } from '../types/tools';
 import { BlueprintRegistry } from './BlueprintRegistry';
+import { ConditionEvaluator } from './ConditionEvaluator';
 import { PromptGenerator } from './PromptGenerator';
+import { RouteRequirements } from './RouteRequirements';
+import { SceneDirector, TranscriptLine } from './SceneDirector';
+import { SentenceStream } from './SentenceStream';
 import { ToolExecutor } from './ToolExecutor';
 import { useGameStore } from '../stores/gameStore';
-import { player2Service } from '../services/player2';
+import { parseTextToolCalls } from '../utils/textToolCalls';
 
 export interface SceneUpdate {
   type:
     | 'scene_loaded'
+    | 'scene_refreshed'
     | 'typewriter'
     | 'dialogue_chunk'
     | 'scene_transition'
     | 'scene_ended'
-    | 'ai_thinking';
+    | 'ai_thinking'
+    | 'tool_call_rejected';
 
   speaker_id?: string;
   speaker_name?: string;
@@ -21,27 +30,68 @@ export interface SceneUpdate {
   next_scene?: string;
   result?: string;
   summary?: string;
+  /** The goal completed when the scene ended, if any */
+  goal_id?: string;
+  /** The NPC spoken to, in exchanges between NPCs */
+  listener_id?: string;
+  listener_name?: string;
+  /** The call that wasn't executed, for tool_call_rejected */
+  rejection?: ToolCallRejection;
+}
+
+export interface GameEngineOptions {
+  /** How long the intro and outro typewriter takes per character; 0 skips the wait */
+  typewriterCharMs?: number;
+}
+
+/** Lines an NPC-to-NPC exchange lasts unless its blueprint says otherwise */
+const DEFAULT_EXCHANGE_LINES = 4;
+
+/** An exchange an NPC asked for through player2_start_exchange */
+interface ExchangeRequest {
+  with: string;
+  topic: string;
+}
+
+/** What the player did on their turn: said something, possibly while using an item */
+export interface PlayerTurn {
+  text: string;
+  item?: { action: ItemAction; item_id: string };
+  /** The NPC the player spoke to, e.g. by clicking their sprite */
+  addressee?: string;
 }
 
 export class GameEngine {
   private sceneModel: SceneModel | null = null;
   private promptGenerator: PromptGenerator;
   private toolExecutor: ToolExecutor;
-  private conversationHistory: unknown[] = [];
-
-  private playerInputCallback: ((resolve: (text: string) => void) => void) | null = null;
+  private routeRequirements: RouteRequirements;
+  private conditions = new ConditionEvaluator();
+  private director: SceneDirector;
+  /** Each NPC's own conversation, without the system prompt, which is rebuilt every turn */
+  private histories = new Map<string, unknown[]>();
+  private transcript: TranscriptLine[] = [];
+  private inExchange = false;
+  private rejectedToolCalls: ToolCallRejection[] = [];
+  private disposed = false;
+
+  private playerInputCallback: ((resolve: (turn: PlayerTurn) => void) => void) | null = null;
   private continueCallback: ((resolve: () => void) => void) | null = null;
 
   constructor(
     private registry: BlueprintRegistry,
-    gameStore: typeof useGameStore,
-    private onUpdate: (update: SceneUpdate) => void
+    private gameStore: typeof useGameStore,
+    private provider: LLMProvider,
+    private onUpdate: (update: SceneUpdate) => void,
+    private options: GameEngineOptions = {}
   ) {
-    this.promptGenerator = new PromptGenerator(registry);
+    this.director = new SceneDirector(provider);
+    this.promptGenerator = new PromptGenerator(registry, gameStore);
     this.toolExecutor = new ToolExecutor(registry, gameStore);
+    this.routeRequirements = new RouteRequirements(registry);
   }
 
-  setPlayerInputHandler(handler: (resolve: (text: string) => void) => void): void {
+  setPlayerInputHandler(handler: (resolve: (turn: PlayerTurn) => void) => void): void {
     this.playerInputCallback = handler;
   }
 
@@ -50,173 +100,439 @@ export class GameEngine {
   }
 
   async startScene(sceneId: string): Promise<void> {
+    await this.registry.ensureScene(sceneId);
     const sceneBlueprint = this.registry.getScene(sceneId);
-    const gameStore = this.toolExecutor['gameStore'].getState();
+    if (this.disposed) return this.halt();
 
-    this.conversationHistory = [];
+    this.histories.clear();
+    this.transcript = [];
+    this.sceneModel = this.buildSceneModel(sceneBlueprint);
+    this.updateObjectives();
 
-    // Find the first NPC character (not the player) as the active character
-    const firstNPC = sceneBlueprint.characters.find((charId) => {
-      const char = this.registry.getCharacter(charId);
-      return char.role !== 'player';
-    });
+    this.emit({ type: 'scene_loaded', scene: this.sceneModel });
+
+    if (sceneBlueprint.intro) {
+      await this.typewriteText(sceneBlueprint.intro);
+      // Wait for player to press continue before starting conversation
+      await this.waitForContinue();
+    }
+
+    await this.startConversation();
+  }
+
+  /**
+   * Re-read the current scene and its characters from the registry after a blueprint changed
+   * (hot reload), keeping the conversation so far. The new system prompt applies from the next
+   * turn.
+   */
+  refreshScene(): void {
+    if (!this.sceneModel) return;
+
+    const sceneBlueprint = this.registry.getScene(this.sceneModel.blueprint.id);
+    this.sceneModel = this.buildSceneModel(sceneBlueprint, this.sceneModel.activeCharacter);
+    this.updateObjectives();
+
+    this.emit({ type: 'scene_refreshed', scene: this.sceneModel });
+  }
+
+  /** Tool calls rejected for invalid arguments during the latest AI turn */
+  getRejectedToolCalls(): ToolCallRejection[] {
+    return [...this.rejectedToolCalls];
+  }
+
+  /**
+   * Stop this engine for good, e.g. before replacing it to restart a scene. Pending turns are
+   * abandoned: no further updates are emitted, tools aren't executed and waits never resolve.
+   */
+  dispose(): void {
+    this.disposed = true;
+  }
+
+  private buildSceneModel(sceneBlueprint: SceneBlueprint, activeCharacter?: string): SceneModel {
+    const npcs = sceneBlueprint.characters.filter(
+      (charId) => this.registry.getCharacter(charId).role !== 'player'
+    );
 
-    if (!firstNPC) {
-      throw new Error(`Scene ${sceneId} has no NPC characters`);
+    // Keep the current speaker when possible, otherwise the first NPC (not the player) speaks
+    const active = activeCharacter && npcs.includes(activeCharacter) ? activeCharacter : npcs[0];
+    if (!active) {
+      throw new Error(`Scene ${sceneBlueprint.id} has no NPC characters`);
     }
 
-    this.sceneModel = {
+    // Goals whose `when` doesn't hold as the scene starts are left out of the scene entirely
+    const state = this.gameStore.getState();
+    const sceneModel: SceneModel = {
       blueprint: sceneBlueprint,
       characters: new Map(),
-      activeCharacter: firstNPC,
+      activeCharacter: active,
+      goals: sceneBlueprint.goals.filter((g) => this.conditions.check(g.when, state)),
     };
 
     for (const charId of sceneBlueprint.characters) {
       const charBlueprint = this.registry.getCharacter(charId);
-      const goals = sceneBlueprint.goals.filter((g) => g.character_id === charId);
-      this.sceneModel.characters.set(charId, {
+      state.seedInventory(charId, charBlueprint.inventory);
+      const goals = sceneModel.goals.filter((g) => g.character_id === charId);
+      sceneModel.characters.set(charId, {
         blueprint: charBlueprint,
         sceneGoals: goals,
       });
     }
 
-    // Clear old objectives and add current scene objectives to dossier
+    return sceneModel;
+  }
+
+  /** Replace the dossier objectives with the scene's active goals */
+  private updateObjectives(): void {
+    const gameStore = this.gameStore.getState();
+
     gameStore.clearObjectives();
-    for (const goal of sceneBlueprint.goals) {
+    for (const goal of this.sceneModel!.goals) {
       const character = goal.character_id ? this.registry.getCharacter(goal.character_id) : null;
       const objectiveText = character ? `${character.name}: ${goal.description}` : goal.description;
       gameStore.updateDossier('objective', objectiveText);
     }
+  }
 
-    this.onUpdate({ type: 'scene_loaded', scene: this.sceneModel });
-
-    if (sceneBlueprint.intro) {
-      await this.typewriteText(sceneBlueprint.intro);
-      // Wait for player to press continue before starting conversation
-      await this.waitForContinue();
-    }
+  private generateSystemPrompt(characterId: string): string {
+    const { blueprint, characters } = this.sceneModel!;
+    return this.promptGenerator.generateSystemPrompt(
+      blueprint.id,
+      characterId,
+      characters.get(characterId)!.sceneGoals,
+      this.provider.capabilities.tools ? undefined : this.toolExecutor.getToolDefinitions()
+    );
+  }
 
-    await this.startConversation();
+  private npcs(): string[] {
+    return Array.from(this.sceneModel!.characters.values())
+      .filter((char) => char.blueprint.role !== 'player')
+      .map((char) => char.blueprint.id);
   }
 
-  private async startConversation(): Promise<void> {
-    const systemPrompt = this.promptGenerator.generateSystemPrompt(
-      this.sceneModel!.blueprint.id,
-      this.sceneModel!.activeCharacter
-    );
+  /** Add a user message to the conversation of every NPC except `exceptId` */
+  private deliver(content: string, exceptId?: string): void {
+    for (const npcId of this.npcs()) {
+      if (npcId === exceptId) continue;
+      this.histories.set(npcId, [...(this.histories.get(npcId) ?? []), { role: 'user', content }]);
+    }
+  }
 
-    const response = await this.chatTurn('system: user entered the scene', systemPrompt);
+  /**
+   * Let one NPC answer what was said so far, or speak to `listenerId` during an exchange.
+   * Returns true when their turn, or an exchange they started, ended the scene.
+   */
+  private async respond(speakerId: string, listenerId?: string): Promise<boolean> {
+    this.sceneModel!.activeCharacter = speakerId;
+    this.emit({ type: 'ai_thinking', speaker_id: speakerId });
+
+    // Sentences are shown as soon as they are complete, while the rest keeps generating
+    const stream = new SentenceStream();
+    const shown = this.displayDialogue(stream, speakerId, listenerId);
+    let response: Awaited<ReturnType<GameEngine['chatTurn']>>;
+    try {
+      response = await this.chatTurn(speakerId, stream);
+    } finally {
+      stream.close();
+    }
+    await shown;
 
     if (response.text) {
-      await this.displayDialogue(response.text);
+      // The other NPCs hear it too
+      const speaker = this.registry.getCharacter(speakerId);
+      this.transcript.push({ speaker_id: speakerId, text: response.text });
+      this.deliver(`system: ${speaker.name} says: "${response.text}"`, speakerId);
     }
 
     if (response.ended) {
-      await this.endScene(response.result, response.summary);
-      return;
+      await this.endScene(response.result, response.summary, response.goalId);
+      return true;
+    }
+
+    // The NPC turned to someone else; the one addressed answers first
+    if (response.exchange) {
+      return this.runExchange([response.exchange.with, speakerId], response.exchange.topic);
     }
+    return false;
+  }
+
+  private async startConversation(): Promise<void> {
+    this.deliver('system: user entered the scene');
+
+    const opening = this.sceneModel!.blueprint.opening_exchange;
+    const ended = opening
+      ? await this.runExchange(opening.participants, opening.topic, opening.lines)
+      : await this.respond(this.sceneModel!.activeCharacter);
+    if (ended) return;
 
     await this.playerInputLoop();
   }
 
   private async playerInputLoop(): Promise<void> {
+    const player = this.registry.getCharacter(this.registry.getGame().player_character_id);
+
     // eslint-disable-next-line no-constant-condition
     while (true) {
-      const playerInput = await this.waitForPlayerInput();
+      const turn = await this.waitForPlayerInput();
+
+      this.emit({ type: 'ai_thinking' });
+
+      const npcs = this.npcs();
+      const addressee =
+        turn.addressee && npcs.includes(turn.addressee) ? turn.addressee : undefined;
+
+      // Items go to the addressed NPC, otherwise to whoever spoke last. The action is applied
+      // first so the prompt's inventories reflect a gift
+      const target = addressee ?? this.sceneModel!.activeCharacter;
+      const itemAction = turn.item && this.performItemAction(turn.item, target);
+      const message = [itemAction?.event, turn.text].filter(Boolean).join('\n');
+
+      this.deliver(message);
+      this.transcript.push({ speaker_id: player.id, text: message });
+
+      const speakers = itemAction
+        ? [target]
+        : await this.director.chooseSpeakers({
+            npcs: npcs.map((id) => this.registry.getCharacter(id)),
+            transcript: this.transcript,
+            playerName: player.name,
+            lastSpeaker: this.sceneModel!.activeCharacter,
+            addressee,
+          });
+      if (this.disposed) return this.halt();
+
+      for (const speakerId of speakers) {
+        if (await this.respond(speakerId)) return;
+      }
 
-      this.onUpdate({ type: 'ai_thinking' });
+      // A goal triggered by the item action ends the scene once the NPC has reacted
+      if (itemAction?.goal) {
+        await this.endScene('success', undefined, itemAction.goal.id);
+        return;
+      }
+    }
+  }
 
-      const systemPrompt = this.promptGenerator.generateSystemPrompt(
-        this.sceneModel!.blueprint.id,
-        this.sceneModel!.activeCharacter
-      );
+  /**
+   * Show, give or use one of the player's items with an NPC. Returns the event message the NPCs
+   * react to and the goal the action triggers, if any.
+   */
+  private performItemAction({ action, item_id }: NonNullable<PlayerTurn['item']>, npcId: string) {
+    const state = this.gameStore.getState();
+    const npc = this.registry.getCharacter(npcId);
+    const item = state.inventory.find((i) => i.id === item_id);
+    if (!item) {
+      console.warn(`Player doesn't have item "${item_id}"`);
+      return undefined;
+    }
 
-      const response = await this.chatTurn(playerInput, systemPrompt);
+    if (action === 'give') state.transferItem(state.player_character_id, npcId, item_id);
 
-      if (response.text) {
-        await this.displayDialogue(response.text);
-      }
+    const described = `[${item.id}] ${item.name}: ${item.description}`;
+    const lines = {
+      show: `system: the player shows ${npc.name} ${described}`,
+      give: `system: the player gives ${npc.name} ${described}. It is now in ${npc.name}'s inventory`,
+      use: `system: the player uses ${described} with ${npc.name}`,
+    };
 
-      if (response.ended) {
-        await this.endScene(response.result, response.summary);
-        break;
-      }
-    }
+    const goal = this.sceneModel!.goals.find(
+      (g) =>
+        g.trigger?.action === action &&
+        g.trigger.item_id === item_id &&
+        (!g.character_id || g.character_id === npcId)
+    );
+    const event = goal
+      ? `${lines[action]}\nsystem: this achieves goal [${goal.id}]. ${npc.name} reacts to it; the scene ends after that reply`
+      : lines[action];
+
+    return { event, goal };
   }
 
+  /**
+   * Run one turn of `characterId`'s conversation, tool calls included. Everything they say is
+   * pushed to `stream` as it arrives, including text sent alongside tool calls.
+   */
   private async chatTurn(
-    message: string,
-    systemPrompt: string
+    characterId: string,
+    stream: SentenceStream
   ): Promise<{
     text: string;
     ended: boolean;
     result?: string;
     summary?: string;
+    goalId?: string;
+    exchange?: ExchangeRequest;
   }> {
-    const messages = [...this.conversationHistory];
-
-    if (messages.length === 0) {
-      messages.push({ role: 'system', content: systemPrompt });
-    }
-
-    messages.push({ role: 'user', content: message });
+    this.rejectedToolCalls = [];
+    const messages: unknown[] = [
+      { role: 'system', content: this.generateSystemPrompt(characterId) },
+      ...(this.histories.get(characterId) ?? []),
+    ];
+    const save = () => this.histories.set(characterId, messages.slice(1));
+    let exchange: ExchangeRequest | undefined;
+    const spoken: string[] = [];
+    const text = () => spoken.join(' ');
 
     const maxIterations = 5;
     for (let i = 0; i < maxIterations; i++) {
-      const response = await player2Service.chatCompletion({
-        messages,
-        tools: this.toolExecutor.getToolDefinitions(),
-        tool_choice: 'auto',
-      });
+      const reply = await this.complete(messages, stream);
+
+      if (this.disposed) return this.halt();
 
-      const aiMessage = response.choices[0].message;
-      messages.push(aiMessage);
+      // A tool call may cut a sentence short; don't run it into the next response's text
+      stream.flush();
 
-      if (!aiMessage.tool_calls) {
-        this.conversationHistory = messages;
-        return { text: aiMessage.content || '', ended: false };
+      messages.push(reply.message);
+      if (reply.text) spoken.push(reply.text);
+
+      if (reply.toolCalls.length === 0) {
+        save();
+        return { text: text(), ended: false, exchange };
       }
 
-      for (const tc of aiMessage.tool_calls) {
-        const result = this.toolExecutor.execute(
-          tc.function.name,
-          JSON.parse(tc.function.arguments)
+      for (const tc of reply.toolCalls) {
+        const call = this.toolExecutor.run(tc.function.name, tc.function.arguments);
+        const { errors } = call;
+        let { result } = call;
+        if (tc.function.name === 'player2_start_exchange' && !errors) {
+          const request = result as { exchange_with: string; topic: string };
+          const error = this.exchangeError(characterId, request.exchange_with);
+          if (error) {
+            result = { success: false, error };
+          } else {
+            exchange = { with: request.exchange_with, topic: request.topic };
+          }
+        }
+        if (errors) {
+          const rejection = { tool: tc.function.name, arguments: tc.function.arguments, errors };
+          this.rejectedToolCalls.push(rejection);
+          this.emit({ type: 'tool_call_rejected', speaker_id: characterId, rejection });
+        }
+
+        messages.push(
+          this.provider.capabilities.tools
+            ? { role: 'tool', tool_call_id: tc.id, content: JSON.stringify(result) }
+            : {
+                role: 'user',
+                content: `system: ${tc.function.name} returned ${JSON.stringify(result)}`,
+              }
         );
 
-        messages.push({
-          role: 'tool',
-          tool_call_id: tc.id,
-          content: JSON.stringify(result),
-        });
+        // Flags and affinity set by tools may satisfy a route's requirements
+        this.routeRequirements.unlockSatisfied(this.gameStore);
 
         if (result && typeof result === 'object' && 'terminal' in result && result.terminal) {
-          this.conversationHistory = messages;
+          save();
           return {
-            text: aiMessage.content || '',
+            text: text(),
             ended: true,
             result: (result as { result?: string }).result,
             summary: (result as { summary?: string }).summary,
+            goalId: (result as { goal_id?: string }).goal_id,
           };
         }
       }
     }
 
-    this.conversationHistory = messages;
-    const lastMessage = messages[messages.length - 1] as { content?: string };
-    return { text: lastMessage.content || '', ended: false };
+    save();
+    return { text: text(), ended: false, exchange };
   }
 
-  private async displayDialogue(text: string): Promise<void> {
-    const sentences = text.match(/[^.!?]+[.!?]+/g) || [text];
+  /**
+   * One model reply, using what the provider supports: streamed into `stream` when it can,
+   * otherwise pushed whole once complete. Without native tool calling, tool calls are read
+   * from the reply's CALL lines, which the player never sees.
+   */
+  private async complete(
+    messages: unknown[],
+    stream: SentenceStream
+  ): Promise<{ message: ChatMessage; text: string; toolCalls: ChatToolCall[] }> {
+    const { capabilities } = this.provider;
+
+    if (!capabilities.tools) {
+      const message = await this.provider.complete({ messages });
+      const { text, calls } = parseTextToolCalls(message.content ?? '');
+      stream.push(text);
+      return { message, text, toolCalls: calls };
+    }
+
+    const request = {
+      messages,
+      tools: this.toolExecutor.getToolDefinitions(),
+      tool_choice: 'auto' as const,
+    };
+    let message: ChatMessage;
+    if (capabilities.streaming) {
+      message = await this.provider.stream(request, (chunk) => stream.push(chunk));
+    } else {
+      message = await this.provider.complete(request);
+      stream.push(message.content ?? '');
+    }
+    return {
+      message,
+      text: message.content?.trim() ?? '',
+      toolCalls: message.tool_calls ?? [],
+    };
+  }
 
-    const activeCharacter = this.sceneModel!.characters.get(this.sceneModel!.activeCharacter)!;
+  /** Why `characterId` can't start an exchange with `withId` right now, if they can't */
+  private exchangeError(characterId: string, withId: string): string | undefined {
+    if (this.inExchange) return 'An exchange is already under way; just reply';
+    if (withId === characterId) return 'You cannot start an exchange with yourself';
+    if (!this.npcs().includes(withId)) {
+      const others = this.npcs().filter((id) => id !== characterId);
+      return others.length
+        ? `${withId} is not an NPC in this scene. Others present: ${others.join(', ')}`
+        : 'Nobody else is in this scene';
+    }
+    return undefined;
+  }
 
-    for (let i = 0; i < sentences.length; i++) {
-      this.onUpdate({
+  /**
+   * Let NPCs talk among themselves, taking turns, for a bounded number of lines. The player
+   * only watches. Returns true when one of the lines ended the scene.
+   */
+  private async runExchange(
+    participants: string[],
+    topic: string,
+    lines = DEFAULT_EXCHANGE_LINES
+  ): Promise<boolean> {
+    const names = participants.map((id) => this.registry.getCharacter(id).name);
+    this.deliver(
+      `system: ${names.join(' and ')} now talk among themselves: ${topic}. The player only listens; speak to each other in short lines`
+    );
+
+    this.inExchange = true;
+    try {
+      for (let i = 0; i < lines; i++) {
+        const speaker = participants[i % participants.length];
+        const listener = participants[(i + 1) % participants.length];
+        if (await this.respond(speaker, listener)) return true;
+      }
+    } finally {
+      this.inExchange = false;
+    }
+
+    this.deliver('system: the exchange is over; the player may speak again');
+    return false;
+  }
+
+  /** Show each sentence from `sentences` as it completes, waiting for the player in between */
+  private async displayDialogue(
+    sentences: SentenceStream,
+    speakerId: string,
+    listenerId?: string
+  ): Promise<void> {
+    const speaker = this.sceneModel!.characters.get(speakerId)!;
+    const listener = listenerId ? this.sceneModel!.characters.get(listenerId) : undefined;
+
+    for await (const sentence of sentences) {
+      this.emit({
         type: 'dialogue_chunk',
-        speaker_id: this.sceneModel!.activeCharacter,
-        speaker_name: activeCharacter.blueprint.name,
-        text: sentences[i].trim(),
+        speaker_id: speakerId,
+        speaker_name: speaker.blueprint.name,
+        listener_id: listenerId,
+        listener_name: listener?.blueprint.name,
+        text: sentence,
       });
 
       await this.waitForContinue();
@@ -224,26 +540,97 @@ export class GameEngine {
   }
 
   private async typewriteText(text: string): Promise<void> {
-    this.onUpdate({ type: 'typewriter', text });
-    await new Promise((resolve) => setTimeout(resolve, text.length * 50));
+    this.emit({ type: 'typewriter', text });
+    const charMs = this.options.typewriterCharMs ?? 50;
+    if (charMs > 0) await new Promise((resolve) => setTimeout(resolve, text.length * charMs));
   }
 
-  private async endScene(result?: string, summary?: string): Promise<void> {
-    if (this.sceneModel!.blueprint.outro) {
-      await this.typewriteText(this.sceneModel!.blueprint.outro);
+  private async endScene(result?: string, summary?: string, goalId?: string): Promise<void> {
+    const scene = this.sceneModel!.blueprint;
+    const goal = this.completeGoal(goalId, result);
+
+    if (scene.outro) {
+      await this.typewriteText(scene.outro);
     }
 
-    const nextSceneId = this.sceneModel!.blueprint.goals.find((g) => g.on_complete.transition_to)
-      ?.on_complete.transition_to;
+    // A completed goal's own transition wins on success; otherwise branch on the outcome
+    const outcome = (result ?? 'neutral') as SceneOutcome;
+    const state = this.gameStore.getState();
+    const nextSceneId =
+      (outcome === 'success' &&
+        this.conditions.resolveTransition(goal?.on_complete.transition_to, state)) ||
+      this.conditions.resolveTransition(scene.transitions?.[outcome], state);
 
     if (nextSceneId) {
-      this.onUpdate({ type: 'scene_transition', next_scene: nextSceneId });
+      await this.registry.ensureScene(nextSceneId);
+      this.emit({ type: 'scene_transition', next_scene: nextSceneId, result, goal_id: goal?.id });
     } else {
-      this.onUpdate({ type: 'scene_ended', result, summary });
+      this.emit({ type: 'scene_ended', result, summary, goal_id: goal?.id });
     }
   }
 
-  private waitForPlayerInput(): Promise<string> {
+  /**
+   * Record the goal the AI reported as completed and apply its `on_complete` effects. A
+   * successful ending without a goal id completes the scene's goal when it only has one.
+   */
+  private completeGoal(goalId: string | undefined, result: string | undefined) {
+    const { goals } = this.sceneModel!;
+
+    let goal: GoalBlueprint | undefined;
+    if (goalId) {
+      goal = goals.find((g) => g.id === goalId);
+      if (!goal) console.warn(`Scene ended with unknown goal "${goalId}"`);
+    } else if (result === 'success' && goals.length === 1) {
+      goal = goals[0];
+    }
+    if (!goal) return undefined;
+
+    const gameStore = this.gameStore.getState();
+    gameStore.completeGoal(goal.id);
+
+    for (const itemId of goal.on_complete.give_items ?? []) {
+      this.giveGoalItem(itemId, goal.character_id);
+    }
+
+    if (goal.on_complete.unlock_route) {
+      gameStore.unlockRoute(goal.on_complete.unlock_route);
+    }
+    this.routeRequirements.unlockSatisfied(this.gameStore);
+
+    return goal;
+  }
+
+  /**
+   * Hand the player an item a completed goal rewards. An item an NPC already holds is taken
+   * from them, so it never exists twice; one the player holds is left alone.
+   */
+  private giveGoalItem(itemId: string, giverId?: string): void {
+    const state = this.gameStore.getState();
+    if (state.inventory.some((i) => i.id === itemId)) return;
+
+    const holder = Object.keys(state.character_inventories).find((charId) =>
+      state.character_inventories[charId].some((i) => i.id === itemId)
+    );
+    if (holder) {
+      state.transferItem(holder, state.player_character_id, itemId);
+      return;
+    }
+
+    const item = this.registry.getItem(itemId);
+    if (item) state.addItem(item, giverId);
+  }
+
+  private emit(update: SceneUpdate): void {
+    if (!this.disposed) this.onUpdate(update);
+  }
+
+  /** A promise that never settles, used to abandon the async flow of a disposed engine */
+  private halt<T>(): Promise<T> {
+    return new Promise<T>(() => {});
+  }
+
+  private waitForPlayerInput(): Promise<PlayerTurn> {
+    if (this.disposed) return this.halt();
     return new Promise((resolve) => {
       if (!this.playerInputCallback) {
         throw new Error('No player input handler registered');
@@ -253,6 +640,7 @@ export class GameEngine {
   }
 
   private waitForContinue(): Promise<void> {
+    if (this.disposed) return this.halt();
     return new Promise((resolve) => {
       if (!this.continueCallback) {
         throw new Error('No continue handler registered');
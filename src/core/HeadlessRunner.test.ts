@@ -0,0 +1,100 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { BlueprintRegistry } from './BlueprintRegistry';
+import { HeadlessRunner } from './HeadlessRunner';
+import { ScriptedProvider } from '../services/providers/ScriptedProvider';
+import { useGameStore } from '../stores/gameStore';
+import { ProviderScript } from '../types/llm';
+import { testGameSource } from '../test/fixtures';
+
+/** Riley greets the player, warms up when they introduce themselves, then ends the scene */
+const meetRiley: ProviderScript = {
+  replies: [
+    { turn: 0, content: 'Hi there. Who are you?' },
+    {
+      match: 'alex',
+      content: 'Nice to meet you, Alex.',
+      tool_calls: [
+        { name: 'player2_set_flag', arguments: { flag_id: 'met_riley', value: true } },
+        { name: 'player2_set_affinity', arguments: { character_id: 'riley', delta: 3 } },
+      ],
+    },
+    {
+      tool_calls: [
+        { name: 'player2_end_scene', arguments: { result: 'success', goal_id: 'befriend_riley' } },
+      ],
+    },
+  ],
+};
+
+describe('HeadlessRunner', () => {
+  let registry: BlueprintRegistry;
+
+  beforeEach(async () => {
+    registry = new BlueprintRegistry(testGameSource());
+    await registry.load('en_US');
+    useGameStore.getState().newGame(registry.getGame());
+  });
+
+  const runner = (script: ProviderScript) =>
+    new HeadlessRunner(registry, useGameStore, new ScriptedProvider(script));
+
+  it('plays a scene through to the transition of its completed goal', async () => {
+    const run = await runner(meetRiley).runScene('scene_1', ["I'm Alex."]);
+
+    expect(run.ending).toMatchObject({
+      type: 'scene_transition',
+      next_scene: 'scene_2',
+      result: 'success',
+      goal_id: 'befriend_riley',
+    });
+    expect(run.state.flags).toEqual({ arrived: true, met_riley: true });
+    expect(run.state.affinity).toEqual({ riley: 3 });
+    expect(run.state.completed_goals).toEqual(['befriend_riley']);
+    expect(run.dialogue).toEqual([
+      { speaker_id: 'riley', text: 'Hi there.' },
+      { speaker_id: 'riley', text: 'Who are you?' },
+      { speaker_id: 'riley', text: 'Nice to meet you, Alex.' },
+    ]);
+  });
+
+  it('ends a scene without a transition when the goal has none', async () => {
+    const run = await runner({
+      replies: [
+        {
+          content: 'Hey, I am Sam.',
+          tool_calls: [
+            { name: 'player2_end_scene', arguments: { result: 'success', goal_id: 'meet_sam' } },
+          ],
+        },
+      ],
+    }).runScene('scene_2');
+
+    expect(run.ending).toMatchObject({
+      type: 'scene_ended',
+      result: 'success',
+      goal_id: 'meet_sam',
+    });
+    expect(run.state.completed_goals).toEqual(['meet_sam']);
+  });
+
+  it('plays the same way every time', async () => {
+    const first = await runner(meetRiley).runScene('scene_1', ["I'm Alex."]);
+    useGameStore.getState().newGame(registry.getGame());
+    const second = await runner(meetRiley).runScene('scene_1', ["I'm Alex."]);
+
+    expect(second.dialogue).toEqual(first.dialogue);
+    expect(second.state.flags).toEqual(first.state.flags);
+  });
+
+  it('rejects when the scene asks for more input than given', async () => {
+    await expect(
+      runner({ replies: [], fallback: { content: 'Tell me more.' } }).runScene('scene_1', ['Hi'])
+    ).rejects.toThrow('Scene "scene_1" asked for more than 1 player inputs');
+  });
+
+  it('rejects when the provider fails', async () => {
+    await expect(runner({ replies: [] }).runScene('scene_1')).rejects.toThrow(
+      'Scripted provider has no reply for turn 0'
+    );
+  });
+});
@@ -0,0 +1,86 @@
+import { GameState } from '../types/state';
+import { LLMProvider } from '../types/llm';
+import { BlueprintRegistry } from './BlueprintRegistry';
+import { GameEngine, PlayerTurn, SceneUpdate } from './GameEngine';
+import { useGameStore } from '../stores/gameStore';
+
+/** A line shown in the dialogue box */
+export interface DialogueLine {
+  speaker_id: string;
+  text: string;
+}
+
+/** What happened in a scene played by the runner */
+export interface SceneRun {
+  /** The scene_ended or scene_transition update that closed the scene */
+  ending: SceneUpdate;
+  /** NPC dialogue in the order it was shown, one sentence per line */
+  dialogue: DialogueLine[];
+  /** Every update the engine emitted */
+  updates: SceneUpdate[];
+  /** The game state once the scene ended */
+  state: GameState;
+}
+
+/**
+ * Plays scenes without a UI: every continue prompt is answered immediately and player turns
+ * come from a list. Paired with a scripted provider, a scene plays out the same way every time,
+ * so tests can assert the flags, affinity and transitions it produces.
+ */
+export class HeadlessRunner {
+  constructor(
+    private registry: BlueprintRegistry,
+    private gameStore: typeof useGameStore,
+    private provider: LLMProvider
+  ) {}
+
+  /**
+   * Play `sceneId` until it ends, answering each player turn with the next of `inputs`.
+   * Rejects when the scene asks for more input than given, or the engine fails.
+   */
+  async runScene(sceneId: string, inputs: Array<string | PlayerTurn> = []): Promise<SceneRun> {
+    const updates: SceneUpdate[] = [];
+    const pending = [...inputs];
+    let engine: GameEngine | undefined;
+
+    try {
+      const ending = await new Promise<SceneUpdate>((resolve, reject) => {
+        engine = new GameEngine(
+          this.registry,
+          this.gameStore,
+          this.provider,
+          (update) => {
+            updates.push(update);
+            if (update.type === 'scene_ended' || update.type === 'scene_transition') {
+              resolve(update);
+            }
+          },
+          { typewriterCharMs: 0 }
+        );
+
+        engine.setContinueHandler((resume) => resume());
+        engine.setPlayerInputHandler((resume) => {
+          const turn = pending.shift();
+          if (turn === undefined) {
+            reject(
+              new Error(`Scene "${sceneId}" asked for more than ${inputs.length} player inputs`)
+            );
+          } else {
+            resume(typeof turn === 'string' ? { text: turn } : turn);
+          }
+        });
+
+        engine.startScene(sceneId).catch(reject);
+      });
+
+      const dialogue = updates
+        .filter((update) => update.type === 'dialogue_chunk')
+        .map((update) => ({ speaker_id: update.speaker_id!, text: update.text! }));
+
+      return { ending, dialogue, updates, state: this.gameStore.getState() };
+    } finally {
+      // Abandons a scene that is still waiting for input
+      engine?.dispose();
+    }
+  }
+}
@@ -0,0 +1,37 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { BlueprintRegistry } from './BlueprintRegistry';
+import { PromptGenerator } from './PromptGenerator';
+import { useGameStore } from '../stores/gameStore';
+import { testGameSource } from '../test/fixtures';
+
+describe('PromptGenerator', () => {
+  let prompts: PromptGenerator;
+
+  beforeEach(async () => {
+    const registry = new BlueprintRegistry(testGameSource());
+    await registry.load('en_US');
+    useGameStore.getState().newGame(registry.getGame());
+    prompts = new PromptGenerator(registry, useGameStore);
+  });
+
+  const tools = (prompt: string) =>
+    prompt
+      .split('**TOOLS AVAILABLE**:')[1]
+      .split('\n\n')[0]
+      .match(/^- \w+/gm);
+
+  it('lists the exchange tool when other NPCs are in the scene', () => {
+    const prompt = prompts.generateSystemPrompt('scene_2', 'riley');
+
+    expect(tools(prompt)).toContain('- player2_start_exchange');
+    expect(prompt).toContain('- Sam (sam)');
+  });
+
+  it('leaves the exchange tool out when the character is the only NPC', () => {
+    const prompt = prompts.generateSystemPrompt('scene_1', 'riley');
+
+    expect(tools(prompt)).not.toContain('- player2_start_exchange');
+    expect(tools(prompt)).toContain('- player2_end_scene');
+    expect(prompt).not.toContain('**ALSO IN THIS SCENE**');
+  });
+});
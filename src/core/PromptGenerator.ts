@@ -1,16 +1,39 @@
+import { CharacterBlueprint, GoalBlueprint, SceneBlueprint } from '../types/blueprints';
 import { BlueprintRegistry } from './BlueprintRegistry';
+import { useGameStore } from '../stores/gameStore';
+import { LANGUAGE_NAMES } from '../utils/languages';
+import { TEXT_TOOL_CALL_FORMAT } from '../utils/textToolCalls';
+import { ToolDefinition } from '../types/tools';
 
 export class PromptGenerator {
-  constructor(private registry: BlueprintRegistry) {}
-
-  generateSystemPrompt(sceneId: string, characterId: string): string {
+  constructor(
+    private registry: BlueprintRegistry,
+    private gameStore: typeof useGameStore
+  ) {}
+
+  /**
+   * `goals` are the character's active goals; defaults to all of its goals in the scene.
+   * `textTools` are spelled out, with how to call them in text, when the provider has no
+   * native tool calling.
+   */
+  generateSystemPrompt(
+    sceneId: string,
+    characterId: string,
+    goals?: GoalBlueprint[],
+    textTools?: ToolDefinition[]
+  ): string {
     const scene = this.registry.getScene(sceneId);
     const character = this.registry.getCharacter(characterId);
-    const characterGoals = scene.goals.filter((g) => g.character_id === characterId);
+    const characterGoals = goals ?? scene.goals.filter((g) => g.character_id === characterId);
 
     const languageInstruction = this.getLanguageInstruction(this.registry.getCurrentLanguage());
 
     const template = scene.prompt;
+    // Only offered when there is someone to talk to
+    const exchangeTool =
+      this.otherNpcs(scene, characterId).length > 0
+        ? '- player2_start_exchange: Talk with another character in the scene for a few lines\n'
+        : '';
 
     return `
 **SCENE**: ${scene.title}
@@ -21,50 +44,110 @@ ${languageInstruction}
 ${template}
 
 **YOUR GOALS IN THIS SCENE**:
-${characterGoals.map((g) => `- ${g.description}`).join('\n')}
+${characterGoals.map((g) => `- [${g.id}] ${g.description}`).join('\n')}
 
-**CHARACTER BACKGROUND**:
+${this.getCastSection(scene, characterId)}**CHARACTER BACKGROUND**:
 ${character.identity.background}
 
 **SPEAKING STYLE**:
 ${character.identity.speaking_style}
 
-**TOOLS AVAILABLE**:
+${this.getInventoriesSection(scene, characterId)}${this.getVariablesSection()}**TOOLS AVAILABLE**:
 - player2_get_state: Read affinity, flags, vars
 - player2_set_affinity: Adjust relationship
 - player2_set_flag: Mark story moments
-- player2_transfer_item: Give/take items
+- player2_set_var: Set a declared story variable
+- player2_increment_var: Add to or subtract from a number variable
+- player2_transfer_item: Hand an item over, or take one the player gives you (see INVENTORIES)
 - player2_update_dossier: Update player objectives
-- player2_end_scene: End scene when goal achieved
+${exchangeTool}- player2_end_scene: End scene when goal achieved (pass its goal_id)
 
-**INSTRUCTIONS**:
+${textTools ? this.getTextToolsSection(textTools) : ''}**INSTRUCTIONS**:
 1. On first turn, call player2_get_state to check context
 2. Respond naturally (1-3 sentences)
 3. Use tools when player makes meaningful choices
-4. Call player2_end_scene when your goals are achieved
+4. When a goal is achieved, call player2_end_scene with result "success" and goal_id set to its id (shown in brackets above)
+5. If the conversation ends without achieving your goals, call player2_end_scene with result "neutral" or "fail"
+6. Lines starting with "system: the player shows/gives/uses" are things the player does with an item; react to them in character
 
 Respond naturally as ${character.name}. Never break character.
     `.trim();
   }
 
+  /** Tool arguments and the CALL line format, for providers without native tool calling */
+  private getTextToolsSection(tools: ToolDefinition[]): string {
+    const signatures = tools
+      .map(({ function: fn }) => `- ${fn.name} ${JSON.stringify(fn.parameters.properties ?? {})}`)
+      .join('\n');
+    return `**CALLING TOOLS**:
+${TEXT_TOOL_CALL_FORMAT}
+Arguments of each tool:
+${signatures}
+
+`;
+  }
+
+  /** The other NPCs of an ensemble scene; empty when the character is the only one */
+  private getCastSection(scene: SceneBlueprint, characterId: string): string {
+    const others = this.otherNpcs(scene, characterId);
+    if (others.length === 0) return '';
+
+    const lines = others.map((char) => `- ${char.name} (${char.id}): ${char.identity.personality}`);
+    return `**ALSO IN THIS SCENE**:
+${lines.join('\n')}
+Their lines reach you as: system: <name> says: "...". Speak only as yourself and never write their lines.
+To talk with one of them directly for a few lines, call player2_start_exchange.
+
+`;
+  }
+
+  private otherNpcs(scene: SceneBlueprint, characterId: string): CharacterBlueprint[] {
+    return scene.characters
+      .filter((id) => id !== characterId)
+      .map((id) => this.registry.getCharacter(id))
+      .filter((char) => char.role !== 'player');
+  }
+
+  /** What everyone in the scene carries, with the ids player2_transfer_item expects */
+  private getInventoriesSection(scene: SceneBlueprint, characterId: string): string {
+    const state = this.gameStore.getState();
+
+    const lines = scene.characters.map((charId) => {
+      const char = this.registry.getCharacter(charId);
+      const who =
+        charId === characterId
+          ? `You (${charId})`
+          : charId === state.player_character_id
+            ? `${char.name}, the player (${charId})`
+            : `${char.name} (${charId})`;
+      const items =
+        charId === state.player_character_id
+          ? state.inventory
+          : (state.character_inventories[charId] ?? char.inventory);
+      const list = items.map((item) => `[${item.id}] ${item.name}: ${item.description}`);
+      return `- ${who}: ${list.length ? list.join('; ') : 'nothing'}`;
+    });
+
+    return `**INVENTORIES**:\n${lines.join('\n')}\n\n`;
+  }
+
+  /** The game's declared variables, so the model knows their names, types and ranges */
+  private getVariablesSection(): string {
+    const variables = this.registry.getGame().variables ?? [];
+    if (variables.length === 0) return '';
+
+    const lines = variables.map((v) => {
+      const range =
+        v.min !== undefined || v.max !== undefined ? `, ${v.min ?? '-∞'} to ${v.max ?? '∞'}` : '';
+      const description = v.description ? `: ${v.description}` : '';
+      return `- ${v.name} (${v.type}${range})${description}`;
+    });
+
+    return `**STORY VARIABLES**:\n${lines.join('\n')}\n\n`;
+  }
+
   private getLanguageInstruction(languageCode: string): string {
-    const languageNames: Record<string, string> = {
-      en_US: 'English',
-
-      fr_FR: 'French',
-      de_DE: 'German',
-      it_IT: 'Italian',
-      pt_BR: 'Portuguese',
-      ru_RU: 'Russian',
-      ja_JP: 'Japanese',
-      ko_KR: 'Korean',
-      zh_CN: 'Chinese (Simplified)',
-      zh_TW: 'Chinese (Traditional)',
-      ar_SA: 'Arabic',
-      hi_IN: 'Hindi',
-    };
-
-    const languageName = languageNames[languageCode] || 'English';
+    const languageName = LANGUAGE_NAMES[languageCode] || 'English';
 
     if (languageCode === 'en_US') {
       return '';
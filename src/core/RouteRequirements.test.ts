@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { BlueprintRegistry } from './BlueprintRegistry';
+import { RouteRequirements } from './RouteRequirements';
+import { testGameFiles, testGameSource, testGameState } from '../test/fixtures';
+
+const files = testGameFiles();
+
+async function requirements() {
+  const registry = new BlueprintRegistry(
+    testGameSource({
+      'blueprints/game.json': {
+        ...(files['blueprints/game.json'] as object),
+        routes: ['main_route', 'riley_route'],
+      },
+      'blueprints/en_US/routes.json': [
+        ...(files['blueprints/en_US/routes.json'] as object[]),
+        {
+          id: 'riley_route',
+          title: "Riley's Route",
+          description: 'Only for friends',
+          chapters: ['chapter_1'],
+          starting_chapter: 'chapter_1',
+          requirements: {
+            completed_routes: ['main_route'],
+            flags: { met_riley: true, betrayed_riley: false },
+            flag_hints: { met_riley: 'Meet Riley' },
+            affinity: { riley: 5 },
+          },
+        },
+      ],
+    })
+  );
+  await registry.load('en_US');
+  return new RouteRequirements(registry);
+}
+
+describe('RouteRequirements', () => {
+  it('lists every unmet requirement with the hint of each flag', async () => {
+    const unmet = (await requirements()).evaluate(
+      'riley_route',
+      testGameState({ flags: { betrayed_riley: true }, affinity: { riley: 2 } })
+    );
+
+    expect(unmet).toEqual([
+      { kind: 'completed_route', route_id: 'main_route' },
+      { kind: 'flag', flag_id: 'met_riley', expected: true, hint: 'Meet Riley' },
+      { kind: 'flag', flag_id: 'betrayed_riley', expected: false, hint: undefined },
+      { kind: 'affinity', character_id: 'riley', minimum: 5, current: 2 },
+    ]);
+  });
+
+  it('makes a route available once its requirements hold', async () => {
+    const state = testGameState({
+      completed_routes: ['main_route'],
+      flags: { met_riley: true },
+      affinity: { riley: 5 },
+    });
+
+    expect((await requirements()).evaluate('riley_route', state)).toEqual([]);
+  });
+});
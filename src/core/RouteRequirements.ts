@@ -0,0 +1,88 @@
+import { GameState } from '../types/state';
+import { useGameStore } from '../stores/gameStore';
+import { BlueprintRegistry } from './BlueprintRegistry';
+
+/** A single `RouteBlueprint.requirements` condition the player doesn't meet yet */
+export type UnmetRequirement =
+  | { kind: 'unlocked_route'; route_id: string }
+  | { kind: 'completed_route'; route_id: string }
+  | { kind: 'flag'; flag_id: string; expected: boolean; hint?: string }
+  | { kind: 'affinity'; character_id: string; minimum: number; current: number };
+
+/**
+ * Checks route requirements against the game state. Shared by GameEngine, which unlocks routes
+ * as soon as their requirements are met, and RouteSelection, which lists what is still missing.
+ */
+export class RouteRequirements {
+  constructor(private registry: BlueprintRegistry) {}
+
+  /** Every requirement of the route that the state doesn't satisfy; empty when unlockable */
+  evaluate(routeId: string, state: GameState): UnmetRequirement[] {
+    const { requirements } = this.registry.getRoute(routeId);
+    if (!requirements) return [];
+
+    const unmet: UnmetRequirement[] = [];
+
+    for (const id of requirements.unlocked_routes ?? []) {
+      if (!state.unlocked_routes.includes(id)) unmet.push({ kind: 'unlocked_route', route_id: id });
+    }
+
+    for (const id of requirements.completed_routes ?? []) {
+      if (!state.completed_routes.includes(id)) {
+        unmet.push({ kind: 'completed_route', route_id: id });
+      }
+    }
+
+    for (const [flagId, expected] of Object.entries(requirements.flags ?? {})) {
+      // Unset flags count as false
+      if ((state.flags[flagId] ?? false) !== expected) {
+        unmet.push({
+          kind: 'flag',
+          flag_id: flagId,
+          expected,
+          hint: requirements.flag_hints?.[flagId],
+        });
+      }
+    }
+
+    for (const [characterId, minimum] of Object.entries(requirements.affinity ?? {})) {
+      const current = state.affinity[characterId] ?? 0;
+      if (current < minimum) {
+        unmet.push({ kind: 'affinity', character_id: characterId, minimum, current });
+      }
+    }
+
+    return unmet;
+  }
+
+  /** Whether the player may start the route: unlocked already or all requirements met */
+  isAvailable(routeId: string, state: GameState): boolean {
+    return state.unlocked_routes.includes(routeId) || this.evaluate(routeId, state).length === 0;
+  }
+
+  /**
+   * Unlock every route of the game whose requirements are now met. Returns the newly unlocked
+   * route ids. Routes without requirements are left alone; they're always available.
+   */
+  unlockSatisfied(gameStore: typeof useGameStore): string[] {
+    const unlocked: string[] = [];
+
+    // Unlocking one route can satisfy another route's `unlocked_routes`, so repeat until stable
+    let changed = true;
+    while (changed) {
+      changed = false;
+      const state = gameStore.getState();
+      for (const routeId of this.registry.getGame().routes) {
+        const route = this.registry.getRoute(routeId);
+        if (!route.requirements || state.unlocked_routes.includes(routeId)) continue;
+        if (this.evaluate(routeId, state).length === 0) {
+          state.unlockRoute(routeId);
+          unlocked.push(routeId);
+          changed = true;
+        }
+      }
+    }
+
+    return unlocked;
+  }
+}
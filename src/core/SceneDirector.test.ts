@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { SceneDirector, TranscriptLine } from './SceneDirector';
+import { CharacterBlueprint } from '../types/blueprints';
+import { LLMProvider } from '../types/llm';
+
+const npc = (id: string, name: string) =>
+  ({ id, name, identity: { personality: `${name} is kind.` } }) as CharacterBlueprint;
+
+const riley = npc('riley', 'Riley Park');
+const sam = npc('sam', 'Sam');
+const al = npc('al', 'Al');
+const npcs = [riley, sam, al];
+
+const provider = {
+  name: 'Test',
+  capabilities: { tools: true, streaming: true, jsonMode: true },
+  initialize: async () => {},
+  isReady: async () => true,
+  complete: vi.fn<LLMProvider['complete']>(),
+  stream: vi.fn<LLMProvider['stream']>(),
+} satisfies LLMProvider;
+
+/** The director model's reply */
+function directorReply(content: string) {
+  provider.complete.mockResolvedValueOnce({ role: 'assistant', content });
+}
+
+describe('SceneDirector', () => {
+  const director = new SceneDirector(provider);
+  const said = (text: string): TranscriptLine[] => [
+    { speaker_id: 'riley', text: 'Welcome, everyone.' },
+    { speaker_id: 'mc', text },
+  ];
+  const choose = (text: string, addressee?: string) =>
+    director.chooseSpeakers({
+      npcs,
+      transcript: said(text),
+      playerName: 'Alex',
+      lastSpeaker: 'riley',
+      addressee,
+    });
+
+  beforeEach(() => provider.complete.mockReset());
+
+  describe('mentionedCharacters', () => {
+    it('finds NPCs by full or first name, in order of mention', () => {
+      expect(director.mentionedCharacters('sam, did Riley tell you?', npcs)).toEqual([
+        'sam',
+        'riley',
+      ]);
+      expect(director.mentionedCharacters('Thanks, Riley Park.', npcs)).toEqual(['riley']);
+    });
+
+    it('only matches where a word starts, but allows particles after the name', () => {
+      expect(director.mentionedCharacters('My pal is here.', npcs)).toEqual([]);
+      expect(director.mentionedCharacters('Hi Al!', npcs)).toEqual(['al']);
+      expect(
+        director.mentionedCharacters('Sam은 어디 있어?', [npc('sam', 'Sam'), npc('min', '민수')])
+      ).toEqual(['sam']);
+    });
+  });
+
+  describe('chooseSpeakers', () => {
+    it('lets the NPC the player addressed answer', async () => {
+      expect(await choose('What do you think, Riley?', 'sam')).toEqual(['sam']);
+      expect(provider.complete).not.toHaveBeenCalled();
+    });
+
+    it('lets the NPCs named in the latest line answer without asking the model', async () => {
+      expect(await choose('Sam and Riley, come here.')).toEqual(['sam', 'riley']);
+      expect(provider.complete).not.toHaveBeenCalled();
+    });
+
+    it('lets the only NPC of the scene answer', async () => {
+      const speakers = await director.chooseSpeakers({
+        npcs: [sam],
+        transcript: said('Hello?'),
+        playerName: 'Alex',
+        lastSpeaker: 'sam',
+      });
+
+      expect(speakers).toEqual(['sam']);
+    });
+
+    it('asks the model otherwise, keeping known NPCs once each', async () => {
+      directorReply('Sure: {"speakers": ["sam", "ghost", "sam", "al"]}');
+
+      expect(await choose('Hello, everyone.')).toEqual(['sam', 'al']);
+
+      const [request] = provider.complete.mock.lastCall!;
+      expect(request.json).toBe(true);
+      expect(request.messages.at(-1)).toEqual({
+        role: 'user',
+        content: 'Riley Park: Welcome, everyone.\nAlex: Hello, everyone.',
+      });
+    });
+
+    it('keeps the last speaker when the model fails or picks nobody', async () => {
+      directorReply('Nobody should answer.');
+      expect(await choose('Hmm.')).toEqual(['riley']);
+
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      provider.complete.mockRejectedValueOnce(new Error('offline'));
+      expect(await choose('Hmm.')).toEqual(['riley']);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { CharacterBlueprint } from '../types/blueprints';
+import { LLMProvider } from '../types/llm';
+
+/** A line said in the current scene, by the player or an NPC */
+export interface TranscriptLine {
+  speaker_id: string;
+  text: string;
+}
+
+/** At most this many NPCs answer a single player line */
+const MAX_RESPONDERS = 3;
+
+/** Lines of the transcript the director model gets to see */
+const DIRECTOR_CONTEXT_LINES = 12;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Decides which NPCs of an ensemble scene answer each player line, and in which order. A
+ * character the player addressed (clicked or named) answers; otherwise a short model call
+ * picks from the scene's NPCs.
+ */
+export class SceneDirector {
+  constructor(private provider: LLMProvider) {}
+
+  /**
+   * NPCs named in the text, in order of first mention. Matches the full name or the first
+   * name, only where a word starts so "Al" doesn't match "pal"; particles after the name
+   * (e.g. Korean) still match.
+   */
+  mentionedCharacters(text: string, npcs: CharacterBlueprint[]): string[] {
+    const mentions: Array<{ id: string; index: number }> = [];
+
+    for (const npc of npcs) {
+      const names = Array.from(new Set([npc.name, npc.name.split(/\s+/)[0]]));
+      const indexes = names
+        .map((name) => text.search(new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(name)}`, 'iu')))
+        .filter((index) => index !== -1);
+      if (indexes.length > 0) mentions.push({ id: npc.id, index: Math.min(...indexes) });
+    }
+
+    return mentions.sort((a, b) => a.index - b.index).map((m) => m.id);
+  }
+
+  /**
+   * The NPCs who answer the latest player line, in order. Never empty: falls back to
+   * `lastSpeaker` when nothing better is known.
+   */
+  async chooseSpeakers(params: {
+    npcs: CharacterBlueprint[];
+    transcript: TranscriptLine[];
+    playerName: string;
+    lastSpeaker: string;
+    addressee?: string;
+  }): Promise<string[]> {
+    const { npcs, lastSpeaker, addressee } = params;
+    if (addressee && npcs.some((npc) => npc.id === addressee)) return [addressee];
+    if (npcs.length === 1) return [npcs[0].id];
+
+    const latest = params.transcript[params.transcript.length - 1];
+    const mentioned = latest ? this.mentionedCharacters(latest.text, npcs) : [];
+    if (mentioned.length > 0) return mentioned.slice(0, MAX_RESPONDERS);
+
+    try {
+      const chosen = await this.askDirector(params);
+      if (chosen.length > 0) return chosen;
+    } catch (error) {
+      console.warn('Director call failed, keeping the last speaker:', error);
+    }
+    return [lastSpeaker];
+  }
+
+  private async askDirector({
+    npcs,
+    transcript,
+    playerName,
+  }: {
+    npcs: CharacterBlueprint[];
+    transcript: TranscriptLine[];
+    playerName: string;
+  }): Promise<string[]> {
+    const nameOf = (id: string) => npcs.find((npc) => npc.id === id)?.name ?? playerName;
+    const cast = npcs
+      .map((npc) => `- ${npc.id}: ${npc.name}. ${npc.identity.personality}`)
+      .join('\n');
+    const lines = transcript
+      .slice(-DIRECTOR_CONTEXT_LINES)
+      .map((line) => `${nameOf(line.speaker_id)}: ${line.text}`)
+      .join('\n');
+
+    const message = await this.provider.complete({
+      messages: [
+        {
+          role: 'system',
+          content: `You direct a scene of a visual novel. Decide which characters respond to the player's last line, in speaking order. Usually one; several only when the line is meant for the group or another character would naturally chime in.
+
+**CHARACTERS**:
+${cast}
+
+Reply with JSON only, e.g. {"speakers": ["${npcs[0].id}"]}`,
+        },
+        { role: 'user', content: lines },
+      ],
+      json: true,
+    });
+
+    // Without JSON mode the object may come wrapped in prose
+    const content = message.content ?? '';
+    const json = content.match(/\{[\s\S]*\}/)?.[0];
+    if (!json) return [];
+
+    const { speakers } = JSON.parse(json) as { speakers?: unknown };
+    if (!Array.isArray(speakers)) return [];
+
+    const ids = speakers.filter(
+      (id, i): id is string =>
+        typeof id === 'string' && npcs.some((npc) => npc.id === id) && speakers.indexOf(id) === i
+    );
+    return ids.slice(0, MAX_RESPONDERS);
+  }
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { validateSchema } from './SchemaValidator';
+import { JsonSchema } from '../types/schema';
+
+const goal: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', minLength: 1 },
+    result: { type: 'string', enum: ['success', 'neutral', 'fail'] },
+    weight: { type: 'integer', minimum: 1, maximum: 5 },
+    when: { type: 'string', format: 'condition' },
+    tags: { type: 'array', items: { type: 'string' } },
+    value: { anyOf: [{ type: 'number' }, { type: 'string', minLength: 2 }] },
+    labels: { type: 'object', additionalProperties: { type: 'string' } },
+  },
+  required: ['id', 'result'],
+  additionalProperties: false,
+};
+
+describe('validateSchema', () => {
+  it('accepts a valid value', () => {
+    expect(
+      validateSchema(goal, {
+        id: 'g1',
+        result: 'success',
+        weight: 3,
+        when: 'flags.a && affinity.b > 2',
+        tags: ['x', 'y'],
+        value: 'ok',
+        labels: { en: 'Goal' },
+      })
+    ).toEqual([]);
+  });
+
+  it('reports a wrong type without looking further', () => {
+    expect(validateSchema(goal, ['not', 'an', 'object'])).toEqual([
+      'value must be an object (got an array)',
+    ]);
+    expect(validateSchema(goal, null, 'goals[0]')).toEqual([
+      'goals[0] must be an object (got null)',
+    ]);
+  });
+
+  it('reports missing required properties', () => {
+    expect(validateSchema(goal, { id: 'g1' })).toEqual(['result is required']);
+  });
+
+  it('rejects unknown properties unless additionalProperties allows them', () => {
+    expect(validateSchema(goal, { id: 'g1', result: 'fail', mood: 'tense' })).toEqual([
+      'mood is not a known property',
+    ]);
+    expect(validateSchema({ type: 'object' }, { anything: 1 })).toEqual([]);
+  });
+
+  it('validates additional properties against their schema', () => {
+    expect(validateSchema(goal, { id: 'g1', result: 'fail', labels: { en: 1 } })).toEqual([
+      'labels.en must be a string (got a number)',
+    ]);
+  });
+
+  it('checks enums, bounds, integers and empty strings', () => {
+    expect(validateSchema(goal, { id: '', result: 'won', weight: 9 })).toEqual([
+      'id must not be empty',
+      'result must be one of "success", "neutral", "fail"',
+      'weight must be <= 5',
+    ]);
+    expect(validateSchema(goal, { id: 'g1', result: 'fail', weight: 1.5 })).toEqual([
+      'weight must be an integer (got a number)',
+    ]);
+    expect(validateSchema(goal, { id: 'g1', result: 'fail', weight: 0 })).toEqual([
+      'weight must be >= 1',
+    ]);
+  });
+
+  it('reports array items by index', () => {
+    expect(validateSchema(goal, { id: 'g1', result: 'fail', tags: ['a', 2, 'c', false] })).toEqual([
+      'tags[1] must be a string (got a number)',
+      'tags[3] must be a string (got a boolean)',
+    ]);
+  });
+
+  it('accepts a value matching any anyOf option and reports the closest failure', () => {
+    expect(validateSchema(goal, { id: 'g1', result: 'fail', value: 4 })).toEqual([]);
+    expect(validateSchema(goal, { id: 'g1', result: 'fail', value: 'x' })).toEqual([
+      'value must be at least 2 characters',
+    ]);
+    expect(validateSchema(goal, { id: 'g1', result: 'fail', value: true })).toEqual([
+      'value must be a number or a string (got a boolean)',
+    ]);
+  });
+
+  it('parses condition strings', () => {
+    const [error] = validateSchema(goal, { id: 'g1', result: 'fail', when: 'flags.a &&' });
+    expect(error).toMatch(/^when is not a valid condition: Unexpected end of condition/);
+  });
+
+  it('prefixes nested errors with their full path', () => {
+    const scene: JsonSchema = {
+      type: 'object',
+      properties: { goals: { type: 'array', items: goal } },
+    };
+    expect(
+      validateSchema(scene, { goals: [{ id: 'a', result: 'fail' }, { id: 'b' }] }, 'scene_1')
+    ).toEqual(['scene_1.goals[1].result is required']);
+  });
+
+  it('ignores the $schema key editors add', () => {
+    expect(validateSchema(goal, { $schema: '../schema.json', id: 'g1', result: 'fail' })).toEqual(
+      []
+    );
+  });
+});
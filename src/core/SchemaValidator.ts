@@ -0,0 +1,124 @@
+import { JsonSchema } from '../types/schema';
+import { ConditionSyntaxError, parseCondition } from './ConditionEvaluator';
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return typeof value === 'object' ? 'an object' : `a ${typeof value}`;
+}
+
+function withArticle(type: string): string {
+  return `${/^[aeiou]/.test(type) ? 'an' : 'a'} ${type}`;
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function matchesType(schema: JsonSchema, value: unknown): boolean {
+  switch (schema.type) {
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'string':
+    case 'boolean':
+      return typeof value === schema.type;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Validate a value against a schema and return one message per problem, each prefixed with the
+ * path of the offending field (e.g. `goals[0].on_complete must be an object`).
+ */
+export function validateSchema(schema: JsonSchema, value: unknown, path: string = ''): string[] {
+  const label = path || 'value';
+
+  if (!matchesType(schema, value)) {
+    return [`${label} must be ${withArticle(schema.type!)} (got ${describeType(value)})`];
+  }
+
+  if (schema.anyOf) {
+    const candidates = schema.anyOf.filter((option) => matchesType(option, value));
+    if (candidates.length === 0) {
+      const expected = schema.anyOf.map((option) => withArticle(option.type!)).join(' or ');
+      return [`${label} must be ${expected} (got ${describeType(value)})`];
+    }
+    const results = candidates.map((option) => validateSchema(option, value, path));
+    return results.find((errors) => errors.length === 0) ?? results[0];
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number | boolean)) {
+    return [`${label} must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(', ')}`];
+  }
+
+  const errors: string[] = [];
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${label} must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${label} must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (typeof value === 'string' && schema.minLength !== undefined) {
+    if (value.length < schema.minLength) {
+      errors.push(
+        schema.minLength === 1
+          ? `${label} must not be empty`
+          : `${label} must be at least ${schema.minLength} characters`
+      );
+    }
+  }
+
+  if (typeof value === 'string' && schema.format === 'condition') {
+    try {
+      parseCondition(value);
+    } catch (error) {
+      if (!(error instanceof ConditionSyntaxError)) throw error;
+      errors.push(`${label} is not a valid condition: ${error.message}`);
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => {
+      errors.push(...validateSchema(schema.items!, item, joinPath(path, i)));
+    });
+  }
+
+  if (schema.type === 'object') {
+    const record = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+
+    for (const key of schema.required ?? []) {
+      if (record[key] === undefined) {
+        errors.push(`${joinPath(path, key)} is required`);
+      }
+    }
+
+    for (const [key, propValue] of Object.entries(record)) {
+      if (key === '$schema') continue;
+      const propSchema = properties[key];
+      if (propSchema) {
+        if (propValue !== undefined) {
+          errors.push(...validateSchema(propSchema, propValue, joinPath(path, key)));
+        }
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${joinPath(path, key)} is not a known property`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateSchema(schema.additionalProperties, propValue, joinPath(path, key)));
+      }
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { SentenceStream } from './SentenceStream';
+
+async function collect(stream: SentenceStream): Promise<string[]> {
+  const sentences: string[] = [];
+  for await (const sentence of stream) sentences.push(sentence);
+  return sentences;
+}
+
+describe('SentenceStream', () => {
+  it('splits text into sentences across pushes', async () => {
+    const stream = new SentenceStream();
+    for (const chunk of ['Hel', 'lo there. How', ' are you? I', "'m fine!", ' Bye']) {
+      stream.push(chunk);
+    }
+    stream.close();
+
+    expect(await collect(stream)).toEqual(['Hello there.', 'How are you?', "I'm fine!", 'Bye']);
+  });
+
+  it('keeps closing quotes, brackets and repeated punctuation with their sentence', async () => {
+    const stream = new SentenceStream();
+    stream.push('She said "stop." (Quietly.) Really?! Yes... ');
+    stream.close();
+
+    expect(await collect(stream)).toEqual(['She said "stop."', '(Quietly.)', 'Really?!', 'Yes...']);
+  });
+
+  it('does not split where punctuation is not followed by whitespace', async () => {
+    const stream = new SentenceStream();
+    stream.push('It costs 3.50 at example.com today.');
+    stream.close();
+
+    expect(await collect(stream)).toEqual(['It costs 3.50 at example.com today.']);
+  });
+
+  it('releases an unfinished sentence on flush', async () => {
+    const stream = new SentenceStream();
+    stream.push('Wait');
+    stream.flush();
+    stream.push('Next message. ');
+    stream.close();
+
+    expect(await collect(stream)).toEqual(['Wait', 'Next message.']);
+  });
+
+  it('yields each sentence as soon as it is complete', async () => {
+    const stream = new SentenceStream();
+    const iterator = stream[Symbol.asyncIterator]();
+
+    const first = iterator.next();
+    stream.push('One. Tw');
+    expect(await first).toEqual({ value: 'One.', done: false });
+
+    const second = iterator.next();
+    stream.push('o.');
+    stream.close();
+    expect(await second).toEqual({ value: 'Two.', done: false });
+    expect(await iterator.next()).toEqual({ value: undefined, done: true });
+  });
+});
@@ -0,0 +1,66 @@
+/** Sentence-ending punctuation, possibly closed by quotes or brackets, then whitespace */
+const SENTENCE_END = /[.!?]+["'”’)\]]*\s/;
+
+/**
+ * Collects text as a response streams in and hands it out one complete sentence at a time,
+ * so the first sentence can be shown while the rest is still being generated.
+ */
+export class SentenceStream {
+  private buffer = '';
+  private sentences: string[] = [];
+  private closed = false;
+  private wake: (() => void) | null = null;
+
+  /** Append streamed text; every sentence it completes becomes available */
+  push(text: string): void {
+    this.buffer += text;
+
+    let match: RegExpExecArray | null;
+    while ((match = SENTENCE_END.exec(this.buffer))) {
+      const end = match.index + match[0].length;
+      this.add(this.buffer.slice(0, end));
+      this.buffer = this.buffer.slice(end);
+    }
+  }
+
+  /**
+   * Release the unfinished sentence, e.g. when a message ends without punctuation or a tool
+   * call cuts it short, so it isn't glued to the next message's text.
+   */
+  flush(): void {
+    this.add(this.buffer);
+    this.buffer = '';
+  }
+
+  /** No more text is coming; iteration ends once the remaining sentences are taken */
+  close(): void {
+    this.flush();
+    this.closed = true;
+    this.notify();
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<string> {
+    while (true) {
+      const next = this.sentences.shift();
+      if (next !== undefined) {
+        yield next;
+      } else if (this.closed) {
+        return;
+      } else {
+        await new Promise<void>((resolve) => (this.wake = resolve));
+      }
+    }
+  }
+
+  private add(text: string): void {
+    const sentence = text.trim();
+    if (!sentence) return;
+    this.sentences.push(sentence);
+    this.notify();
+  }
+
+  private notify(): void {
+    this.wake?.();
+    this.wake = null;
+  }
+}
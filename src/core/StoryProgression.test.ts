@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { BlueprintRegistry } from './BlueprintRegistry';
+import { StoryProgression } from './StoryProgression';
+import { testGameFiles, testGameSource, testGameState } from '../test/fixtures';
+
+async function progression(overrides: Record<string, unknown> = {}) {
+  const registry = new BlueprintRegistry(testGameSource(overrides), { validation: 'silent' });
+  await registry.load('en_US');
+  return new StoryProgression(registry);
+}
+
+const position = { route: 'main_route', chapter: 'chapter_1', scene: 'scene_1' };
+
+/** The test game with scene_2 moved into a second chapter of the route */
+const twoChapters = {
+  'blueprints/en_US/routes.json': [
+    {
+      ...(testGameFiles()['blueprints/en_US/routes.json'] as object[])[0],
+      chapters: ['chapter_1', 'chapter_2'],
+    },
+  ],
+  'blueprints/en_US/chapters.json': [
+    { id: 'chapter_1', title: 'Chapter 1', intro: 'It begins', scenes: ['scene_1'] },
+    { id: 'chapter_2', title: 'Chapter 2', intro: 'It goes on', scenes: ['scene_2'] },
+  ],
+};
+
+describe('StoryProgression', () => {
+  it('starts a route at the first scene of its starting chapter', async () => {
+    expect((await progression()).start('main_route', testGameState())).toEqual(position);
+  });
+
+  it('moves on to the next scene of the chapter, then ends the route', async () => {
+    const story = await progression();
+
+    expect(story.afterScene(position, testGameState())).toEqual({
+      type: 'scene',
+      position: { ...position, scene: 'scene_2' },
+    });
+    expect(story.afterScene({ ...position, scene: 'scene_2' }, testGameState())).toMatchObject({
+      type: 'route_end',
+      route: { id: 'main_route' },
+    });
+  });
+
+  it('skips scenes whose condition does not hold', async () => {
+    const story = await progression({
+      'blueprints/en_US/chapters.json': [
+        {
+          id: 'chapter_1',
+          title: 'Chapter 1',
+          intro: 'It begins',
+          scenes: ['scene_1', { id: 'scene_2', when: 'flags.met_riley' }],
+        },
+      ],
+    });
+
+    expect(story.afterScene(position, testGameState()).type).toBe('route_end');
+    expect(story.afterScene(position, testGameState({ flags: { met_riley: true } })).type).toBe(
+      'scene'
+    );
+  });
+
+  it('enters the next chapter after the last scene of a chapter', async () => {
+    expect((await progression(twoChapters)).afterScene(position, testGameState())).toEqual({
+      type: 'chapter',
+      position: { route: 'main_route', chapter: 'chapter_2', scene: 'scene_2' },
+    });
+  });
+
+  it('enters the chapter of a scene reached through a transition', async () => {
+    const story = await progression(twoChapters);
+
+    expect(story.transitionTo(position, 'scene_2')).toEqual({
+      type: 'chapter',
+      position: { route: 'main_route', chapter: 'chapter_2', scene: 'scene_2' },
+    });
+    expect(story.transitionTo(position, 'scene_1')).toEqual({ type: 'scene', position });
+  });
+
+  it('refuses to continue from a chapter that is not part of the route', async () => {
+    const story = await progression({
+      'blueprints/en_US/chapters.json': [
+        { id: 'chapter_1', title: 'Chapter 1', intro: 'It begins', scenes: ['scene_1'] },
+        { id: 'side_chapter', title: 'Aside', intro: 'Meanwhile', scenes: ['scene_2'] },
+      ],
+    });
+
+    expect(() =>
+      story.afterScene({ ...position, chapter: 'side_chapter', scene: 'scene_2' }, testGameState())
+    ).toThrow('Chapter side_chapter is not part of route main_route');
+  });
+});
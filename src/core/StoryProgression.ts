@@ -0,0 +1,109 @@
+import { ChapterSceneEntry, RouteBlueprint } from '../types/blueprints';
+import { GameState } from '../types/state';
+import { chapterSceneIds, sceneEntryCondition, sceneEntryId } from '../utils/branching';
+import { BlueprintRegistry } from './BlueprintRegistry';
+import { ConditionEvaluator } from './ConditionEvaluator';
+
+export interface StoryPosition {
+  route: string;
+  chapter: string;
+  scene: string;
+}
+
+/**
+ * Where the story goes next: another scene of the same chapter, the first scene of a new
+ * chapter (shown after its ChapterIntro), or the end of the route.
+ */
+export type ProgressionStep =
+  | { type: 'scene'; position: StoryPosition }
+  | { type: 'chapter'; position: StoryPosition }
+  | { type: 'route_end'; route: RouteBlueprint };
+
+/**
+ * Walks routes and chapters as declared in routes.json and chapters.json. Chapter scene entries
+ * whose `when` condition doesn't hold are skipped, and so is a chapter left with no scenes.
+ */
+export class StoryProgression {
+  private conditions = new ConditionEvaluator();
+
+  constructor(private registry: BlueprintRegistry) {}
+
+  /** The first playable scene of a route, starting at its starting chapter */
+  start(routeId: string, state: GameState): StoryPosition {
+    const route = this.registry.getRoute(routeId);
+    const step = this.enterChapter(
+      route,
+      route.chapters.slice(route.chapters.indexOf(route.starting_chapter)),
+      state
+    );
+    if (step.type === 'route_end') {
+      throw new Error(`Route ${routeId} has no playable scenes`);
+    }
+    return step.position;
+  }
+
+  /**
+   * The step after a scene that ended without a transition: the next playable scene listed in
+   * its chapter, otherwise the next chapter of the route, otherwise the route's end. A scene
+   * that isn't listed in its chapter (reached through a transition) ends the chapter. Throws
+   * when the chapter isn't part of the route, rather than guessing where to continue.
+   */
+  afterScene(position: StoryPosition, state: GameState): ProgressionStep {
+    const chapter = this.registry.getChapter(position.chapter);
+    const index = chapterSceneIds(chapter).indexOf(position.scene);
+    if (index !== -1) {
+      const scene = this.firstPlayableScene(chapter.scenes.slice(index + 1), state);
+      if (scene) return { type: 'scene', position: { ...position, scene } };
+    }
+
+    const route = this.registry.getRoute(position.route);
+    const chapterIndex = route.chapters.indexOf(position.chapter);
+    if (chapterIndex === -1) {
+      throw new Error(`Chapter ${position.chapter} is not part of route ${route.id}`);
+    }
+    return this.enterChapter(route, route.chapters.slice(chapterIndex + 1), state);
+  }
+
+  /**
+   * The step for an explicit scene transition. Moving to a scene listed in another chapter of
+   * the route enters that chapter; anything else stays in the current one.
+   */
+  transitionTo(position: StoryPosition, sceneId: string): ProgressionStep {
+    const chapter = this.registry.getChapter(position.chapter);
+    if (!chapterSceneIds(chapter).includes(sceneId)) {
+      const route = this.registry.getRoute(position.route);
+      const targetChapter = route.chapters.find((id) =>
+        chapterSceneIds(this.registry.getChapter(id)).includes(sceneId)
+      );
+      if (targetChapter) {
+        return {
+          type: 'chapter',
+          position: { route: route.id, chapter: targetChapter, scene: sceneId },
+        };
+      }
+    }
+
+    return { type: 'scene', position: { ...position, scene: sceneId } };
+  }
+
+  /** Enter the first of `chapters` that has a playable scene */
+  private enterChapter(
+    route: RouteBlueprint,
+    chapters: string[],
+    state: GameState
+  ): ProgressionStep {
+    for (const chapterId of chapters) {
+      const chapter = this.registry.getChapter(chapterId);
+      const scene = this.firstPlayableScene(chapter.scenes, state);
+      if (scene) {
+        return { type: 'chapter', position: { route: route.id, chapter: chapter.id, scene } };
+      }
+    }
+    return { type: 'route_end', route };
+  }
+
+  private firstPlayableScene(entries: ChapterSceneEntry[], state: GameState): string | undefined {
+    const entry = entries.find((e) => this.conditions.check(sceneEntryCondition(e), state));
+    return entry === undefined ? undefined : sceneEntryId(entry);
+  }
+}
@@ -0,0 +1,219 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { BlueprintRegistry } from './BlueprintRegistry';
+import { ToolExecutor } from './ToolExecutor';
+import { useGameStore } from '../stores/gameStore';
+import { testGameFiles, testGameSource } from '../test/fixtures';
+
+describe('ToolExecutor', () => {
+  let registry: BlueprintRegistry;
+  let executor: ToolExecutor;
+
+  beforeEach(async () => {
+    const game = testGameFiles()['blueprints/game.json'] as Record<string, unknown>;
+    registry = new BlueprintRegistry(
+      testGameSource({
+        'blueprints/game.json': {
+          ...game,
+          variables: [
+            ...(game.variables as object[]),
+            { name: 'mood', type: 'string', default: 'calm' },
+          ],
+        },
+      })
+    );
+    await registry.load('en_US');
+    useGameStore.getState().newGame(registry.getGame());
+    executor = new ToolExecutor(registry, useGameStore);
+  });
+
+  describe('run', () => {
+    it('executes a valid call', () => {
+      const call = executor.run('player2_set_flag', '{"flag_id":"met_riley","value":true}');
+
+      expect(call).toEqual({ result: { success: true } });
+      expect(useGameStore.getState().flags.met_riley).toBe(true);
+    });
+
+    it('treats empty arguments as an empty object', () => {
+      expect(executor.run('player2_get_state', '  ').errors).toEqual(['keys is required']);
+    });
+
+    it('rejects arguments that are not valid JSON without executing', () => {
+      const call = executor.run('player2_set_flag', '{"flag_id": "met_riley", value: true');
+
+      expect(call.errors).toHaveLength(1);
+      expect(call.errors![0]).toMatch(/^Arguments are not valid JSON: /);
+      expect(call.result).toMatchObject({ success: false, details: call.errors });
+      expect(useGameStore.getState().flags).not.toHaveProperty('met_riley');
+    });
+
+    it('rejects arguments that break the tool schema without executing', () => {
+      const call = executor.run(
+        'player2_set_affinity',
+        '{"character_id":"riley","delta":"lots","mood":"happy"}'
+      );
+
+      expect(call.errors).toEqual(
+        expect.arrayContaining([expect.stringContaining('delta'), expect.stringContaining('mood')])
+      );
+      expect(call.result).toMatchObject({ success: false });
+      expect(useGameStore.getState().affinity).toEqual({});
+    });
+
+    it('rejects calls to unknown tools', () => {
+      expect(executor.run('player2_fly', '{}').errors).toEqual(['Unknown tool player2_fly']);
+    });
+
+    it('reports a failed call in the result rather than as a rejection', () => {
+      const call = executor.run('player2_set_affinity', '{"character_id":"ghost","delta":2}');
+
+      expect(call.errors).toBeUndefined();
+      expect(call.result).toEqual({ success: false, error: 'Unknown character ghost' });
+      expect(useGameStore.getState().affinity).toEqual({});
+    });
+  });
+
+  describe('story variables', () => {
+    it('sets a declared variable and reports the previous value', () => {
+      expect(executor.execute('player2_set_var', { name: 'trust', value: 4 })).toEqual({
+        success: true,
+        name: 'trust',
+        previous: 0,
+        value: 4,
+      });
+      expect(useGameStore.getState().vars.trust).toBe(4);
+    });
+
+    it('rejects a value of the wrong type or outside the range', () => {
+      expect(executor.execute('player2_set_var', { name: 'trust', value: 'high' })).toEqual({
+        success: false,
+        error: 'vars.trust must be a number (got "high")',
+      });
+      expect(executor.execute('player2_set_var', { name: 'trust', value: 11 })).toEqual({
+        success: false,
+        error: 'vars.trust must be at most 10',
+      });
+      expect(executor.execute('player2_set_var', { name: 'mood', value: 3 })).toEqual({
+        success: false,
+        error: 'vars.mood must be a string (got 3)',
+      });
+      expect(useGameStore.getState().vars).toEqual({ trust: 0, mood: 'calm' });
+    });
+
+    it('rejects variables the game does not declare', () => {
+      expect(executor.execute('player2_set_var', { name: 'luck', value: 1 })).toEqual({
+        success: false,
+        error: 'Unknown variable luck. Declared variables: trust, mood',
+      });
+    });
+
+    it('increments a number variable, clamping it to its min and max', () => {
+      expect(executor.execute('player2_increment_var', { name: 'trust', delta: 3 })).toEqual({
+        success: true,
+        name: 'trust',
+        previous: 0,
+        value: 3,
+        clamped: false,
+      });
+      expect(executor.execute('player2_increment_var', { name: 'trust', delta: 20 })).toEqual({
+        success: true,
+        name: 'trust',
+        previous: 3,
+        value: 10,
+        clamped: true,
+      });
+      expect(executor.execute('player2_increment_var', { name: 'trust', delta: -15 })).toEqual({
+        success: true,
+        name: 'trust',
+        previous: 10,
+        value: 0,
+        clamped: true,
+      });
+    });
+
+    it('refuses to increment a string variable or by a non-number', () => {
+      expect(executor.execute('player2_increment_var', { name: 'mood', delta: 1 })).toEqual({
+        success: false,
+        error: 'vars.mood is a string, not a number',
+      });
+      expect(executor.execute('player2_increment_var', { name: 'trust', delta: '2' })).toEqual({
+        success: false,
+        error: 'delta must be a number (got "2")',
+      });
+      expect(useGameStore.getState().vars).toEqual({ trust: 0, mood: 'calm' });
+    });
+  });
+
+  describe('item transfers', () => {
+    const transfer = (sender_id: string, receiver_id: string, item_id = 'key') =>
+      executor.execute('player2_transfer_item', { sender_id, receiver_id, item_id });
+    const holdings = () => {
+      const { inventory, character_inventories } = useGameStore.getState();
+      return {
+        mc: inventory.map((i) => i.id),
+        riley: character_inventories.riley?.map((i) => i.id),
+      };
+    };
+
+    beforeEach(() => useGameStore.getState().seedInventory('riley', [registry.getItem('key')!]));
+
+    it('moves an item from an NPC to the player and back', () => {
+      expect(transfer('riley', 'mc')).toEqual({
+        success: true,
+        item_transferred: 'Key',
+        from: 'Riley',
+        to: 'Alex',
+      });
+      expect(holdings()).toEqual({ mc: ['key'], riley: [] });
+
+      expect(transfer('mc', 'riley')).toEqual({
+        success: true,
+        item_transferred: 'Key',
+        from: 'Alex',
+        to: 'Riley',
+      });
+      expect(holdings()).toEqual({ mc: [], riley: ['key'] });
+    });
+
+    it("refuses to transfer an item the sender doesn't hold", () => {
+      expect(transfer('mc', 'riley')).toEqual({
+        success: false,
+        error: "Alex doesn't have key (holding: nothing)",
+      });
+      expect(transfer('riley', 'mc', 'map')).toEqual({
+        success: false,
+        error: "Riley doesn't have map (holding: key)",
+      });
+      expect(holdings()).toEqual({ mc: [], riley: ['key'] });
+    });
+
+    it('refuses unknown characters but accepts ones lazy mode has not loaded', async () => {
+      const files = testGameFiles();
+      registry = new BlueprintRegistry(
+        testGameSource({
+          'blueprints/en_US/routes.json': [
+            {
+              ...(files['blueprints/en_US/routes.json'] as object[])[0],
+              chapters: ['chapter_1', 'chapter_2'],
+            },
+          ],
+          'blueprints/en_US/chapters.json': [
+            { id: 'chapter_1', title: 'Chapter 1', intro: 'It begins', scenes: ['scene_1'] },
+            { id: 'chapter_2', title: 'Chapter 2', intro: 'It goes on', scenes: ['scene_2'] },
+          ],
+        }),
+        { lazy: true }
+      );
+      // Keep the prefetch of chapter 2 from loading Sam
+      vi.spyOn(registry, 'loadChapter').mockResolvedValue();
+      await registry.load('en_US');
+      executor = new ToolExecutor(registry, useGameStore);
+
+      expect(transfer('riley', 'ghost')).toEqual({
+        success: false,
+        error: 'Unknown character ghost',
+      });
+      expect(transfer('riley', 'sam')).toMatchObject({ success: true, from: 'Riley', to: 'sam' });
+    });
+  });
+});
@@ -1,5 +1,9 @@
 import { BlueprintRegistry } from './BlueprintRegistry';
 import { useGameStore } from '../stores/gameStore';
+import { ToolDefinition } from '../types/tools';
+import { validateSchema } from './SchemaValidator';
+import { VariableDeclaration, VariableValue } from '../types/blueprints';
+import { clampVariable, findVariable, variableValueError } from '../utils/variables';
 
 export class ToolExecutor {
   constructor(
@@ -24,6 +28,130 @@ export class ToolExecutor {
     );
   }
 
+  private getVariable(name: string): VariableDeclaration | { error: string } {
+    const game = this.registry.getGame();
+    const variable = findVariable(game, name);
+    if (variable) return variable;
+
+    const declared = (game.variables ?? []).map((v) => v.name);
+    return {
+      error: declared.length
+        ? `Unknown variable ${name}. Declared variables: ${declared.join(', ')}`
+        : `Unknown variable ${name}. This game declares no variables`,
+    };
+  }
+
+  private setVar(name: string, value: unknown): Record<string, unknown> {
+    const variable = this.getVariable(name);
+    if ('error' in variable) return { success: false, error: variable.error };
+
+    const error = variableValueError(variable, value);
+    if (error) return { success: false, error };
+
+    const store = this.gameStore.getState();
+    const previous = store.vars[name] ?? variable.default;
+    store.setVar(name, value as VariableValue);
+    return { success: true, name, previous, value };
+  }
+
+  /** Add `delta` to a number variable, clamping the result to its min/max */
+  private incrementVar(name: string, delta: unknown): Record<string, unknown> {
+    const variable = this.getVariable(name);
+    if ('error' in variable) return { success: false, error: variable.error };
+
+    if (variable.type !== 'number') {
+      return { success: false, error: `vars.${name} is a ${variable.type}, not a number` };
+    }
+    if (typeof delta !== 'number' || !Number.isFinite(delta)) {
+      return { success: false, error: `delta must be a number (got ${JSON.stringify(delta)})` };
+    }
+
+    const store = this.gameStore.getState();
+    const previous = (store.vars[name] ?? variable.default) as number;
+    const value = clampVariable(variable, previous + delta);
+    store.setVar(name, value);
+    return { success: true, name, previous, value, clamped: value !== previous + delta };
+  }
+
+  private transferItem(senderId: string, receiverId: string, itemId: string) {
+    for (const charId of [senderId, receiverId]) {
+      if (!this.registry.hasCharacterId(charId)) {
+        return { success: false, error: `Unknown character ${charId}` };
+      }
+    }
+    if (senderId === receiverId) {
+      return { success: false, error: 'Sender and receiver must be different characters' };
+    }
+
+    const state = this.gameStore.getState();
+    const held =
+      senderId === state.player_character_id
+        ? state.inventory
+        : (state.character_inventories[senderId] ?? []);
+    const item = held.find((i) => i.id === itemId);
+
+    if (!item) {
+      const holding = held.map((i) => i.id).join(', ') || 'nothing';
+      return {
+        success: false,
+        error: `${this.characterName(senderId)} doesn't have ${itemId} (holding: ${holding})`,
+      };
+    }
+
+    state.transferItem(senderId, receiverId, itemId);
+    return {
+      success: true,
+      item_transferred: item.name,
+      from: this.characterName(senderId),
+      to: this.characterName(receiverId),
+    };
+  }
+
+  /** The character's name, or its id while lazy mode hasn't loaded it */
+  private characterName(id: string): string {
+    return this.registry.hasCharacter(id) ? this.registry.getCharacter(id).name : id;
+  }
+
+  /**
+   * Problems with a call's arguments, checked against the tool's parameter schema. Empty when
+   * the call is valid.
+   */
+  validate(toolName: string, args: unknown): string[] {
+    const definition = this.getToolDefinitions().find((d) => d.function.name === toolName);
+    if (!definition) return [`Unknown tool ${toolName}`];
+    return validateSchema(definition.function.parameters, args);
+  }
+
+  /**
+   * Parse, validate and execute a call from the model. Invalid calls aren't executed; their
+   * result lists the errors so the model can correct the call, and `errors` is set.
+   */
+  run(toolName: string, rawArguments: string): { result: unknown; errors?: string[] } {
+    let args: unknown;
+    try {
+      args = rawArguments.trim() ? JSON.parse(rawArguments) : {};
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return this.rejected([`Arguments are not valid JSON: ${message}`]);
+    }
+
+    const errors = this.validate(toolName, args);
+    if (errors.length > 0) return this.rejected(errors);
+
+    return { result: this.execute(toolName, args as Record<string, unknown>) };
+  }
+
+  private rejected(errors: string[]): { result: unknown; errors: string[] } {
+    return {
+      result: {
+        success: false,
+        error: 'Invalid tool call; nothing was changed. Fix the arguments and call it again',
+        details: errors,
+      },
+      errors,
+    };
+  }
+
   execute(toolName: string, args: Record<string, unknown>): unknown {
     try {
       switch (toolName) {
@@ -31,6 +159,9 @@ export class ToolExecutor {
           return this.getState(args.keys as string[]);
 
         case 'player2_set_affinity':
+          if (!this.registry.hasCharacterId(args.character_id as string)) {
+            return { success: false, error: `Unknown character ${args.character_id}` };
+          }
           this.gameStore.getState().setAffinity(args.character_id as string, args.delta as number);
           return { success: true };
 
@@ -38,22 +169,18 @@ export class ToolExecutor {
           this.gameStore.getState().setFlag(args.flag_id as string, args.value as boolean);
           return { success: true };
 
-        case 'player2_transfer_item': {
-          const item = this.registry.getItem(args.item_id as string);
-          if (!item) {
-            return { success: false, error: `Item ${args.item_id} not found` };
-          }
+        case 'player2_set_var':
+          return this.setVar(args.name as string, args.value);
 
-          const receiverId = args.receiver_id as string;
-          const game = this.registry.getGame();
-
-          if (receiverId === game.player_character_id) {
-            this.gameStore.getState().addItem(item);
-            return { success: true, item_transferred: item.name };
-          }
+        case 'player2_increment_var':
+          return this.incrementVar(args.name as string, args.delta);
 
-          return { success: false, error: 'Only transfers to player are supported' };
-        }
+        case 'player2_transfer_item':
+          return this.transferItem(
+            args.sender_id as string,
+            args.receiver_id as string,
+            args.item_id as string
+          );
 
         case 'player2_update_dossier':
           this.gameStore
@@ -61,8 +188,17 @@ export class ToolExecutor {
             .updateDossier(args.type as 'objective' | 'note', args.text as string);
           return { success: true };
 
+        case 'player2_start_exchange':
+          // GameEngine checks the character is in the scene and runs the exchange
+          return { success: true, exchange_with: args.character_id, topic: args.topic };
+
         case 'player2_end_scene':
-          return { terminal: true, result: args.result, summary: args.summary };
+          return {
+            terminal: true,
+            result: args.result,
+            summary: args.summary,
+            goal_id: args.goal_id,
+          };
 
         default:
           return { success: false, error: 'Unknown tool' };
@@ -76,7 +212,7 @@ export class ToolExecutor {
     }
   }
 
-  getToolDefinitions(): unknown[] {
+  getToolDefinitions(): ToolDefinition[] {
     return [
       {
         type: 'function',
@@ -85,6 +221,7 @@ export class ToolExecutor {
           description: 'Read game state (affinity, flags, vars, inventory)',
           parameters: {
             type: 'object',
+            additionalProperties: false,
             properties: { keys: { type: 'array', items: { type: 'string' } } },
             required: ['keys'],
           },
@@ -97,6 +234,7 @@ export class ToolExecutor {
           description: 'Modify character relationship score',
           parameters: {
             type: 'object',
+            additionalProperties: false,
             properties: {
               character_id: { type: 'string' },
               delta: { type: 'number' },
@@ -112,6 +250,7 @@ export class ToolExecutor {
           description: 'Set story flag',
           parameters: {
             type: 'object',
+            additionalProperties: false,
             properties: {
               flag_id: { type: 'string' },
               value: { type: 'boolean' },
@@ -120,13 +259,48 @@ export class ToolExecutor {
           },
         },
       },
+      {
+        type: 'function',
+        function: {
+          name: 'player2_set_var',
+          description: 'Set a declared story variable; the value must match its type and range',
+          parameters: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              name: { type: 'string' },
+              value: { anyOf: [{ type: 'string' }, { type: 'number' }, { type: 'boolean' }] },
+            },
+            required: ['name', 'value'],
+          },
+        },
+      },
+      {
+        type: 'function',
+        function: {
+          name: 'player2_increment_var',
+          description:
+            'Add to a number variable (negative to subtract). The result is kept within its range',
+          parameters: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              name: { type: 'string' },
+              delta: { type: 'number' },
+            },
+            required: ['name', 'delta'],
+          },
+        },
+      },
       {
         type: 'function',
         function: {
           name: 'player2_transfer_item',
-          description: 'Transfer item between characters',
+          description:
+            'Move an item from one character to another, in either direction. The sender must hold it',
           parameters: {
             type: 'object',
+            additionalProperties: false,
             properties: {
               sender_id: { type: 'string' },
               receiver_id: { type: 'string' },
@@ -143,6 +317,7 @@ export class ToolExecutor {
           description: 'Update player dossier with objectives or notes',
           parameters: {
             type: 'object',
+            additionalProperties: false,
             properties: {
               type: { type: 'string', enum: ['objective', 'note'] },
               text: { type: 'string' },
@@ -151,16 +326,36 @@ export class ToolExecutor {
           },
         },
       },
+      {
+        type: 'function',
+        function: {
+          name: 'player2_start_exchange',
+          description:
+            'Turn to another NPC in the scene for a short back-and-forth while the player listens',
+          parameters: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              character_id: { type: 'string' },
+              topic: { type: 'string', description: 'What the two of you talk about' },
+            },
+            required: ['character_id', 'topic'],
+          },
+        },
+      },
       {
         type: 'function',
         function: {
           name: 'player2_end_scene',
-          description: 'End the current scene (TERMINAL)',
+          description:
+            'End the current scene (TERMINAL). Pass the id of the goal that was achieved, if any',
           parameters: {
             type: 'object',
+            additionalProperties: false,
             properties: {
               result: { type: 'string', enum: ['success', 'neutral', 'fail'] },
               summary: { type: 'string' },
+              goal_id: { type: 'string' },
             },
             required: ['result'],
           },
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { formatTranslationCoverage, TranslationCoverage } from './TranslationCoverage';
+import { MemoryBlueprintSource } from './sources/MemoryBlueprintSource';
+
+const scene = {
+  id: 'scene_1',
+  title: 'First Meeting',
+  view: { default: { uri: '/assets/park.png' } },
+  prompt: 'You meet Riley.',
+  characters: ['mc', 'riley'],
+  goals: [{ id: 'befriend_riley', description: 'Become friends', on_complete: {} }],
+};
+
+/** An English base and a Korean translation that is missing, stale or extra in places */
+const source = new MemoryBlueprintSource({
+  'blueprints/en_US/chapters.json': [{ id: 'chapter_1', title: 'Chapter 1', scenes: [] }],
+  'blueprints/ko_KR/chapters.json': [{ id: 'chapter_1', title: '1장', scenes: [] }],
+  'blueprints/en_US/scenes/index.json': ['scene_1', 'scene_2'],
+  'blueprints/ko_KR/scenes/index.json': ['scene_1', 'scene_3'],
+  'blueprints/en_US/scenes/scene_1.json': scene,
+  'blueprints/ko_KR/scenes/scene_1.json': {
+    ...scene,
+    title: '첫 만남',
+    view: { default: { uri: '/assets/park_ko.png' } },
+    goals: [{ id: 'befriend_riley', on_complete: {} }],
+  },
+  'blueprints/en_US/scenes/scene_2.json': { ...scene, id: 'scene_2', title: 'Together' },
+  'locales/en_US.json': { ui: { start: 'Start', ok: 'OK', more: '...' } },
+  'locales/ko_KR.json': { ui: { start: '시작', ok: 'OK', more: '...' } },
+});
+
+describe('TranslationCoverage', () => {
+  it('reports what each language is missing compared to the base language', async () => {
+    const report = await new TranslationCoverage(source).analyze(['en_US', 'ko_KR']);
+
+    expect(report.baseLanguage).toBe('en_US');
+    expect(report.languages).toHaveLength(1);
+    const [korean] = report.languages;
+    expect(korean.issues).toEqual([
+      { kind: 'missing_id', file: 'ko_KR/scenes/index.json', key: 'scene_2' },
+      { kind: 'extra_id', file: 'ko_KR/scenes/index.json', key: 'scene_3' },
+      {
+        kind: 'untranslated',
+        file: 'ko_KR/scenes/scene_1.json',
+        key: 'prompt',
+        source: 'You meet Riley.',
+      },
+      {
+        kind: 'missing_key',
+        file: 'ko_KR/scenes/scene_1.json',
+        key: 'goals[befriend_riley].description',
+        source: 'Become friends',
+      },
+      { kind: 'missing_file', file: 'ko_KR/scenes/scene_2.json' },
+      { kind: 'untranslated', file: 'locales/ko_KR.json', key: 'ui.ok', source: 'OK' },
+    ]);
+    // The chapter and scene titles, "시작" and "...", which reads the same in every language
+    expect(korean.translatedStrings).toBe(4);
+    expect(korean.totalStrings).toBe(10);
+  });
+
+  it('ignores ids, URIs and other structural fields', async () => {
+    const report = await new TranslationCoverage(source).analyze(['en_US', 'ko_KR']);
+
+    const keys = report.languages[0].issues.map((issue) => issue.key);
+    expect(keys).not.toContain('view.default.uri');
+    expect(keys).not.toContain('id');
+    expect(keys).not.toContain('characters[0]');
+  });
+
+  it('formats a table with one row per language followed by the issues', async () => {
+    const report = await new TranslationCoverage(source).analyze(['en_US', 'ko_KR']);
+    const lines = formatTranslationCoverage(report).split('\n');
+
+    expect(lines[0]).toBe('Translation coverage against en_US');
+    expect(lines[2]).toMatch(/^language\s+coverage\s+missing_file\s+missing_key/);
+    expect(lines[4]).toMatch(/^ko_KR\s+40\.0%\s+1\s+1\s+1\s+1\s+2$/);
+    expect(lines).toContain('  missing_file ko_KR/scenes/scene_2.json');
+  });
+});
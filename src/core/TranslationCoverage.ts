@@ -0,0 +1,193 @@
+import { BlueprintSource } from './sources/BlueprintSource';
+import { collectTranslatableStrings, TranslatableOptions } from '../utils/translatable';
+
+export type TranslationIssueKind =
+  | 'missing_file'
+  | 'missing_key'
+  | 'missing_id'
+  | 'extra_id'
+  | 'untranslated';
+
+export interface TranslationIssue {
+  kind: TranslationIssueKind;
+  /** e.g. `ko_KR/scenes/scene_2.json` or `locales/ko_KR.json` */
+  file: string;
+  /** Field path for key issues, entry id for index issues */
+  key?: string;
+  /** The base-language text, for missing and untranslated strings */
+  source?: string;
+}
+
+export interface LanguageCoverage {
+  language: string;
+  totalStrings: number;
+  translatedStrings: number;
+  issues: TranslationIssue[];
+}
+
+export interface TranslationCoverageReport {
+  baseLanguage: string;
+  languages: LanguageCoverage[];
+}
+
+const INDEXED_FOLDERS = ['characters', 'scenes', 'items'];
+const LIST_FILES = ['chapters.json', 'routes.json'];
+
+/** Strings without letters ("...", "42") read the same in every language */
+const HAS_LETTERS = /\p{L}/u;
+
+/**
+ * Diffs every blueprint language folder and UI locale file against the base language (the
+ * first entry of languages.json) to tell translators what is missing or still untranslated.
+ */
+export class TranslationCoverage {
+  constructor(private source: BlueprintSource) {}
+
+  private async tryRead(path: string): Promise<unknown> {
+    try {
+      return await this.source.readJson(path);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async readIndex(language: string, folder: string): Promise<string[]> {
+    const ids = await this.tryRead(`blueprints/${language}/${folder}/index.json`);
+    return Array.isArray(ids) ? ids.filter((id): id is string => typeof id === 'string') : [];
+  }
+
+  async analyze(languages: string[]): Promise<TranslationCoverageReport> {
+    const [baseLanguage, ...translations] = languages;
+    const report: TranslationCoverageReport = { baseLanguage, languages: [] };
+
+    for (const language of translations) {
+      report.languages.push(await this.analyzeLanguage(baseLanguage, language));
+    }
+    return report;
+  }
+
+  private async analyzeLanguage(baseLanguage: string, language: string): Promise<LanguageCoverage> {
+    const coverage: LanguageCoverage = {
+      language,
+      totalStrings: 0,
+      translatedStrings: 0,
+      issues: [],
+    };
+
+    const files = [...LIST_FILES];
+    for (const folder of INDEXED_FOLDERS) {
+      const [baseIds, ids] = await Promise.all([
+        this.readIndex(baseLanguage, folder),
+        this.readIndex(language, folder),
+      ]);
+      const indexFile = `${language}/${folder}/index.json`;
+
+      for (const id of baseIds) {
+        if (!ids.includes(id)) {
+          coverage.issues.push({ kind: 'missing_id', file: indexFile, key: id });
+        }
+        files.push(`${folder}/${id}.json`);
+      }
+      for (const id of ids) {
+        if (!baseIds.includes(id)) {
+          coverage.issues.push({ kind: 'extra_id', file: indexFile, key: id });
+        }
+      }
+    }
+
+    for (const file of files) {
+      await this.compareFile(
+        coverage,
+        `blueprints/${baseLanguage}/${file}`,
+        `blueprints/${language}/${file}`
+      );
+    }
+    await this.compareFile(coverage, `locales/${baseLanguage}.json`, `locales/${language}.json`, {
+      allStrings: true,
+    });
+
+    return coverage;
+  }
+
+  private async compareFile(
+    coverage: LanguageCoverage,
+    basePath: string,
+    translatedPath: string,
+    options: TranslatableOptions = {}
+  ): Promise<void> {
+    const [base, translated] = await Promise.all([
+      this.tryRead(basePath),
+      this.tryRead(translatedPath),
+    ]);
+    if (base === undefined) return;
+
+    const file = translatedPath.replace(/^blueprints\//, '');
+    const baseStrings = collectTranslatableStrings(base, options);
+    coverage.totalStrings += baseStrings.size;
+
+    if (translated === undefined) {
+      coverage.issues.push({ kind: 'missing_file', file });
+      return;
+    }
+
+    const translatedStrings = collectTranslatableStrings(translated, options);
+    for (const [key, source] of baseStrings) {
+      const text = translatedStrings.get(key);
+      if (text === undefined) {
+        coverage.issues.push({ kind: 'missing_key', file, key, source });
+      } else if (text === source && HAS_LETTERS.test(source)) {
+        coverage.issues.push({ kind: 'untranslated', file, key, source });
+      } else {
+        coverage.translatedStrings++;
+      }
+    }
+  }
+}
+
+/**
+ * Render a coverage report as a plain-text table followed by the individual issues.
+ */
+export function formatTranslationCoverage(report: TranslationCoverageReport): string {
+  const kinds: TranslationIssueKind[] = [
+    'missing_file',
+    'missing_key',
+    'missing_id',
+    'extra_id',
+    'untranslated',
+  ];
+  const header = ['language', 'coverage', ...kinds];
+  const rows = report.languages.map((lang) => [
+    lang.language,
+    lang.totalStrings > 0
+      ? `${((lang.translatedStrings / lang.totalStrings) * 100).toFixed(1)}%`
+      : '-',
+    ...kinds.map((kind) => String(lang.issues.filter((i) => i.kind === kind).length)),
+  ]);
+
+  const widths = header.map((h, col) => Math.max(h.length, ...rows.map((row) => row[col].length)));
+  const formatRow = (row: string[]) =>
+    row
+      .map((cell, col) => cell.padEnd(widths[col]))
+      .join('  ')
+      .trimEnd();
+
+  const lines = [
+    `Translation coverage against ${report.baseLanguage}`,
+    '',
+    formatRow(header),
+    formatRow(widths.map((w) => '-'.repeat(w))),
+    ...rows.map(formatRow),
+  ];
+
+  for (const lang of report.languages) {
+    if (lang.issues.length === 0) continue;
+    lines.push('', `[${lang.language}]`);
+    for (const issue of lang.issues) {
+      const key = issue.key ? ` ${issue.key}` : '';
+      const source = issue.source ? ` — "${issue.source}"` : '';
+      lines.push(`  ${issue.kind.padEnd(12)} ${issue.file}${key}${source}`);
+    }
+  }
+
+  return lines.join('\n');
+}
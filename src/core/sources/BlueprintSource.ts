@@ -0,0 +1,10 @@
+/**
+ * Where blueprint files come from. Paths are relative to the public root
+ * (e.g. `blueprints/en_US/scenes/scene_1.json`, `themes/default.json`).
+ *
+ * Implementations: HttpBlueprintSource (default), MemoryBlueprintSource,
+ * IndexedDBBlueprintSource, and the Node-only FileSystemBlueprintSource in `scripts/lib`.
+ */
+export interface BlueprintSource {
+  readJson(path: string): Promise<unknown>;
+}
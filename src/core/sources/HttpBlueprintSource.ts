@@ -0,0 +1,21 @@
+import { BlueprintSource } from './BlueprintSource';
+
+/**
+ * Loads blueprints over HTTP from the app's public folder. This is the default source.
+ */
+export class HttpBlueprintSource implements BlueprintSource {
+  constructor(private baseUrl: string = import.meta.env.BASE_URL) {}
+
+  async readJson(path: string): Promise<unknown> {
+    const response = await fetch(`${this.baseUrl}${path}`);
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText}`);
+    }
+
+    try {
+      return await response.json();
+    } catch (error) {
+      throw new Error(`Invalid JSON: ${error}`);
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import { BlueprintSource } from './BlueprintSource';
+
+const DEFAULT_DB_NAME = 'p2vn_blueprints';
+const STORE_NAME = 'files';
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Serves blueprints stored in IndexedDB, keyed by path. Lets a downloaded or imported game be
+ * played offline without a server.
+ */
+export class IndexedDBBlueprintSource implements BlueprintSource {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private dbName: string = DEFAULT_DB_NAME) {}
+
+  private openDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      const request = indexedDB.open(this.dbName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME);
+      };
+      this.dbPromise = promisify(request);
+    }
+    return this.dbPromise;
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.openDb();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  async readJson(path: string): Promise<unknown> {
+    const data = await promisify((await this.store('readonly')).get(path));
+    if (data === undefined) {
+      throw new Error('Not found');
+    }
+    return data;
+  }
+
+  async writeJson(path: string, data: unknown): Promise<void> {
+    await promisify((await this.store('readwrite')).put(data, path));
+  }
+
+  /**
+   * Copy the given paths from another source (e.g. HTTP or a dropped folder) into IndexedDB.
+   */
+  async importFrom(source: BlueprintSource, paths: string[]): Promise<void> {
+    for (const path of paths) {
+      await this.writeJson(path, await source.readJson(path));
+    }
+  }
+
+  async clear(): Promise<void> {
+    await promisify((await this.store('readwrite')).clear());
+  }
+}
@@ -0,0 +1,51 @@
+import { BlueprintSource } from './BlueprintSource';
+
+/**
+ * Serves blueprints from an in-memory map of path → JSON value (or raw JSON text). Useful for
+ * unit tests and for games assembled at runtime, e.g. from a folder dropped onto the page.
+ */
+export class MemoryBlueprintSource implements BlueprintSource {
+  private files: Map<string, unknown>;
+
+  constructor(files: Record<string, unknown> = {}) {
+    this.files = new Map(Object.entries(files));
+  }
+
+  /**
+   * Build a source from dropped or picked files. Each file's relative path is trimmed to start at
+   * its `blueprints/` or `themes/` folder, so dropping the whole `public/` folder works.
+   */
+  static async fromFiles(files: Iterable<File>): Promise<MemoryBlueprintSource> {
+    const source = new MemoryBlueprintSource();
+    for (const file of files) {
+      const relativePath = file.webkitRelativePath || file.name;
+      const match = relativePath.match(/(?:^|\/)((?:blueprints|themes)\/.+\.json)$/);
+      if (match) {
+        source.set(match[1], await file.text());
+      }
+    }
+    return source;
+  }
+
+  set(path: string, data: unknown): void {
+    this.files.set(path, data);
+  }
+
+  delete(path: string): void {
+    this.files.delete(path);
+  }
+
+  async readJson(path: string): Promise<unknown> {
+    if (!this.files.has(path)) {
+      throw new Error('Not found');
+    }
+
+    const data = this.files.get(path);
+    try {
+      // Always hand out a fresh copy so callers can't mutate the stored blueprint
+      return JSON.parse(typeof data === 'string' ? data : JSON.stringify(data));
+    } catch (error) {
+      throw new Error(`Invalid JSON: ${error}`);
+    }
+  }
+}
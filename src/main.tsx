@@ -2,7 +2,6 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import { App } from './App.tsx';
 import './index.css';
-import './themes/cyberpunk-2077.css';
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
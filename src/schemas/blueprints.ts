@@ -0,0 +1,405 @@
+import { JsonSchema } from '../types/schema';
+
+/**
+ * Runtime schemas mirroring the interfaces in `src/types/blueprints.ts`. Keep both in sync:
+ * every field added to a blueprint type needs a matching entry here, otherwise loading will
+ * reject it as an unknown property.
+ */
+
+const nonEmptyString: JsonSchema = { type: 'string', minLength: 1 };
+
+const stringList: JsonSchema = { type: 'array', items: nonEmptyString };
+
+const conditionSchema: JsonSchema = {
+  type: 'string',
+  format: 'condition',
+  description:
+    "Condition expression, e.g. flags.met_riley && affinity.riley >= 5 && has_item('badge')",
+};
+
+const transitionSchema: JsonSchema = {
+  description: 'A scene id, or options tried in order, taking the first whose condition holds',
+  anyOf: [
+    nonEmptyString,
+    {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { to: nonEmptyString, when: conditionSchema },
+        required: ['to'],
+        additionalProperties: false,
+      },
+    },
+  ],
+};
+
+export const imageSchema: JsonSchema = {
+  type: 'object',
+  description: 'An image asset, either a file under public/ or a generation prompt',
+  properties: {
+    prompt: { type: 'string' },
+    uri: { type: 'string' },
+  },
+  additionalProperties: false,
+};
+
+export const audioSchema: JsonSchema = {
+  type: 'object',
+  description: 'An audio asset, either a file under public/ or a generation prompt',
+  properties: {
+    prompt: { type: 'string' },
+    uri: { type: 'string' },
+  },
+  additionalProperties: false,
+};
+
+export const voiceSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    prompt: { type: 'string' },
+    gender: { type: 'string' },
+    language: { type: 'string' },
+    voice_id: { type: 'string' },
+  },
+  additionalProperties: false,
+};
+
+const viewSchema: JsonSchema = {
+  type: 'object',
+  description: 'Images keyed by state; "default" is required',
+  properties: { default: imageSchema },
+  required: ['default'],
+  additionalProperties: imageSchema,
+};
+
+export const itemSchema: JsonSchema = {
+  type: 'object',
+  title: 'Item',
+  properties: {
+    id: nonEmptyString,
+    name: nonEmptyString,
+    description: { type: 'string' },
+    image: imageSchema,
+  },
+  required: ['id', 'name', 'description', 'image'],
+  additionalProperties: false,
+};
+
+export const characterSchema: JsonSchema = {
+  type: 'object',
+  title: 'Character',
+  properties: {
+    id: nonEmptyString,
+    name: nonEmptyString,
+    role: {
+      type: 'string',
+      description: '"player" for the player character, anything else for NPCs',
+    },
+    introduction: { type: 'string' },
+    view: viewSchema,
+    identity: {
+      type: 'object',
+      properties: {
+        personality: { type: 'string' },
+        background: { type: 'string' },
+        speaking_style: { type: 'string' },
+        relationships: {
+          type: 'object',
+          description: 'Relationship descriptions keyed by character id',
+          additionalProperties: { type: 'string' },
+        },
+      },
+      required: ['personality', 'background', 'speaking_style'],
+      additionalProperties: false,
+    },
+    voice: voiceSchema,
+    inventory: { type: 'array', items: itemSchema },
+  },
+  required: ['id', 'name', 'role', 'view', 'identity', 'voice', 'inventory'],
+  additionalProperties: false,
+};
+
+export const goalSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: nonEmptyString,
+    character_id: nonEmptyString,
+    description: { type: 'string' },
+    when: conditionSchema,
+    trigger: {
+      type: 'object',
+      description: 'Completes the goal when the player shows, gives or uses this item',
+      properties: {
+        action: { type: 'string', enum: ['show', 'give', 'use'] },
+        item_id: nonEmptyString,
+      },
+      required: ['action', 'item_id'],
+      additionalProperties: false,
+    },
+    on_complete: {
+      type: 'object',
+      properties: {
+        transition_to: transitionSchema,
+        give_items: stringList,
+        unlock_route: nonEmptyString,
+      },
+      additionalProperties: false,
+    },
+  },
+  required: ['id', 'description', 'on_complete'],
+  additionalProperties: false,
+};
+
+export const sceneSchema: JsonSchema = {
+  type: 'object',
+  title: 'Scene',
+  properties: {
+    id: nonEmptyString,
+    title: { type: 'string' },
+    view: viewSchema,
+    audio: audioSchema,
+    prompt: { type: 'string' },
+    characters: stringList,
+    goals: { type: 'array', items: goalSchema },
+    transitions: {
+      type: 'object',
+      description: 'Next scene per outcome, unless the completed goal sets transition_to',
+      properties: {
+        success: transitionSchema,
+        neutral: transitionSchema,
+        fail: transitionSchema,
+      },
+      additionalProperties: false,
+    },
+    opening_exchange: {
+      type: 'object',
+      description: 'NPCs talking among themselves at scene start, the first participant opening',
+      properties: {
+        participants: stringList,
+        topic: nonEmptyString,
+        lines: { type: 'integer', minimum: 1, maximum: 12 },
+      },
+      required: ['participants', 'topic'],
+      additionalProperties: false,
+    },
+    intro: { type: 'string' },
+    outro: { type: 'string' },
+  },
+  required: ['id', 'title', 'view', 'prompt', 'characters', 'goals'],
+  additionalProperties: false,
+};
+
+export const chapterSchema: JsonSchema = {
+  type: 'object',
+  title: 'Chapter',
+  properties: {
+    id: nonEmptyString,
+    title: { type: 'string' },
+    intro: { type: 'string' },
+    scenes: {
+      type: 'array',
+      items: {
+        description: 'A scene id, or a scene skipped unless its condition holds',
+        anyOf: [
+          nonEmptyString,
+          {
+            type: 'object',
+            properties: { id: nonEmptyString, when: conditionSchema },
+            required: ['id'],
+            additionalProperties: false,
+          },
+        ],
+      },
+    },
+  },
+  required: ['id', 'title', 'intro', 'scenes'],
+  additionalProperties: false,
+};
+
+export const routeSchema: JsonSchema = {
+  type: 'object',
+  title: 'Route',
+  properties: {
+    id: nonEmptyString,
+    title: { type: 'string' },
+    description: { type: 'string' },
+    chapters: stringList,
+    starting_chapter: nonEmptyString,
+    ending: {
+      type: 'object',
+      description: 'Ending screen shown when the route is finished',
+      properties: {
+        title: { type: 'string' },
+        description: { type: 'string' },
+        image: imageSchema,
+      },
+      required: ['title', 'description'],
+      additionalProperties: false,
+    },
+    requirements: {
+      type: 'object',
+      properties: {
+        unlocked_routes: stringList,
+        completed_routes: stringList,
+        flags: { type: 'object', additionalProperties: { type: 'boolean' } },
+        flag_hints: { type: 'object', additionalProperties: { type: 'string' } },
+        affinity: { type: 'object', additionalProperties: { type: 'number' } },
+      },
+      additionalProperties: false,
+    },
+  },
+  required: ['id', 'title', 'description', 'chapters', 'starting_chapter'],
+  additionalProperties: false,
+};
+
+export const themeSchema: JsonSchema = {
+  type: 'object',
+  title: 'Theme',
+  properties: {
+    id: nonEmptyString,
+    name: { type: 'string' },
+    stylesheet: { type: 'string', description: 'Theme CSS file, relative to public/' },
+    font_urls: {
+      type: 'array',
+      description: 'Web font stylesheets loaded with the theme',
+      items: { type: 'string' },
+    },
+    colors: {
+      type: 'object',
+      properties: {
+        primary: { type: 'string' },
+        secondary: { type: 'string' },
+        background: { type: 'string' },
+        text: { type: 'string' },
+      },
+      required: ['primary', 'secondary', 'background', 'text'],
+      additionalProperties: { type: 'string' },
+    },
+    fonts: {
+      type: 'object',
+      properties: {
+        heading: { type: 'string' },
+        body: { type: 'string' },
+        dialogue: { type: 'string' },
+      },
+      required: ['heading', 'body', 'dialogue'],
+      additionalProperties: false,
+    },
+    transitions: {
+      type: 'object',
+      properties: {
+        scene_fade_duration: { type: 'number', minimum: 0 },
+        text_speed: { type: 'number', minimum: 0 },
+      },
+      additionalProperties: false,
+    },
+    ui: {
+      type: 'object',
+      description: 'CSS variables; keys are converted from snake_case to --kebab-case',
+      additionalProperties: { type: 'string' },
+    },
+  },
+  required: ['id', 'name', 'colors', 'fonts'],
+  additionalProperties: false,
+};
+
+const variableValueSchema: JsonSchema = {
+  anyOf: [{ type: 'number' }, { type: 'boolean' }, { type: 'string' }],
+};
+
+export const variableSchema: JsonSchema = {
+  type: 'object',
+  description: 'A story variable, read as vars.<name> in conditions; min and max apply to numbers',
+  properties: {
+    name: nonEmptyString,
+    type: { type: 'string', enum: ['number', 'boolean', 'string'] },
+    default: variableValueSchema,
+    description: { type: 'string' },
+    min: { type: 'number' },
+    max: { type: 'number' },
+  },
+  required: ['name', 'type', 'default'],
+  additionalProperties: false,
+};
+
+export const gameSchema: JsonSchema = {
+  type: 'object',
+  title: 'Game',
+  properties: {
+    id: nonEmptyString,
+    title: { type: 'string' },
+    version: { type: 'string' },
+    description: { type: 'string' },
+    authors: { type: 'array', items: { type: 'string' } },
+    player_character_id: nonEmptyString,
+    routes: stringList,
+    starting_route: nonEmptyString,
+    main_menu_image: imageSchema,
+    variables: { type: 'array', items: variableSchema },
+    initial_state: {
+      type: 'object',
+      properties: {
+        flags: { type: 'object', additionalProperties: { type: 'boolean' } },
+        vars: { type: 'object', additionalProperties: variableValueSchema },
+        unlocked_routes: stringList,
+      },
+      additionalProperties: false,
+    },
+    theme: nonEmptyString,
+    settings: {
+      type: 'object',
+      properties: {
+        auto_save: { type: 'boolean' },
+        text_speed: { type: 'number', minimum: 0 },
+        voice_enabled: { type: 'boolean' },
+        music_volume: { type: 'number', minimum: 0 },
+        sfx_volume: { type: 'number', minimum: 0 },
+      },
+      additionalProperties: false,
+    },
+  },
+  required: [
+    'id',
+    'title',
+    'version',
+    'description',
+    'authors',
+    'player_character_id',
+    'routes',
+    'starting_route',
+    'theme',
+  ],
+  additionalProperties: false,
+};
+
+export const idListSchema: JsonSchema = {
+  ...stringList,
+  title: 'Id list',
+  description: 'Ids of the blueprint files in this folder (without .json)',
+};
+
+export const chapterListSchema: JsonSchema = {
+  type: 'array',
+  title: 'Chapters',
+  items: chapterSchema,
+};
+
+export const routeListSchema: JsonSchema = {
+  type: 'array',
+  title: 'Routes',
+  items: routeSchema,
+};
+
+/**
+ * Schemas published as JSON Schema files, keyed by output file name (without extension).
+ */
+export const publishedSchemas: Record<string, JsonSchema> = {
+  game: gameSchema,
+  character: characterSchema,
+  scene: sceneSchema,
+  item: itemSchema,
+  chapters: chapterListSchema,
+  routes: routeListSchema,
+  theme: themeSchema,
+  index: idListSchema,
+};
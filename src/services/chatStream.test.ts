@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { readChatStream } from './chatStream';
+
+/** A streamed response delivering `chunks` as separate reads */
+function sseResponse(chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+  return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+function event(delta: object): string {
+  return `data: ${JSON.stringify({ choices: [{ delta }] })}\n\n`;
+}
+
+async function read(response: Response) {
+  const content: string[] = [];
+  const message = await readChatStream(response, (text) => content.push(text));
+  return { message, content };
+}
+
+describe('readChatStream', () => {
+  it('passes content on as it arrives', async () => {
+    const { message, content } = await read(
+      sseResponse([event({ content: 'Hello' }), event({ content: ' there.' }), 'data: [DONE]\n\n'])
+    );
+
+    expect(content).toEqual(['Hello', ' there.']);
+    expect(message).toEqual({ role: 'assistant', content: 'Hello there.', tool_calls: undefined });
+  });
+
+  it('joins events split across reads', async () => {
+    const first = event({ content: 'Split ' });
+    const second = event({ content: 'event' });
+    const { message } = await read(
+      sseResponse([first.slice(0, 10), first.slice(10) + second.slice(0, 25), second.slice(25)])
+    );
+
+    expect(message.content).toBe('Split event');
+  });
+
+  it('stops reading at [DONE]', async () => {
+    const { content } = await read(
+      sseResponse([event({ content: 'Kept' }), 'data: [DONE]\n\n', event({ content: 'Ignored' })])
+    );
+
+    expect(content).toEqual(['Kept']);
+  });
+
+  it('ignores comments and blank data lines', async () => {
+    const { message } = await read(
+      sseResponse([': keep-alive\n\n', 'data:\n\n', event({ content: 'Hi' })])
+    );
+
+    expect(message.content).toBe('Hi');
+  });
+
+  it('assembles tool calls from their fragments', async () => {
+    const { message } = await read(
+      sseResponse([
+        event({ content: 'Sure.' }),
+        event({
+          tool_calls: [{ index: 0, id: 'call_1', function: { name: 'player2_', arguments: '' } }],
+        }),
+        event({ tool_calls: [{ index: 0, function: { name: 'end_scene', arguments: '{"res' } }] }),
+        event({
+          tool_calls: [
+            { index: 0, function: { arguments: 'ult":"done"}' } },
+            { index: 1, id: 'call_2', function: { name: 'player2_set_flag', arguments: '{}' } },
+          ],
+        }),
+        'data: [DONE]\n\n',
+      ])
+    );
+
+    expect(message.content).toBe('Sure.');
+    expect(message.tool_calls).toEqual([
+      {
+        id: 'call_1',
+        type: 'function',
+        function: { name: 'player2_end_scene', arguments: '{"result":"done"}' },
+      },
+      { id: 'call_2', type: 'function', function: { name: 'player2_set_flag', arguments: '{}' } },
+    ]);
+  });
+
+  it('rejects when the stream reports an error', async () => {
+    const response = sseResponse([
+      `data: ${JSON.stringify({ error: { message: 'overloaded' } })}\n`,
+    ]);
+
+    await expect(read(response)).rejects.toThrow('API stream failed: overloaded');
+  });
+
+  it('reads a response that was not streamed as one chunk', async () => {
+    const response = new Response(
+      JSON.stringify({ choices: [{ message: { role: 'assistant', content: 'Whole reply' } }] }),
+      { headers: { 'Content-Type': 'application/json' } }
+    );
+
+    const { message, content } = await read(response);
+    expect(content).toEqual(['Whole reply']);
+    expect(message).toEqual({ role: 'assistant', content: 'Whole reply' });
+  });
+});
@@ -0,0 +1,95 @@
+import { ChatMessage, ChatToolCall } from '../types/llm';
+
+/** One server-sent event of a streamed completion */
+interface ChatCompletionChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+      tool_calls?: Array<{
+        index?: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+  }>;
+  error?: { message?: string };
+}
+
+/**
+ * Read an OpenAI-style streamed (SSE) chat completion. Text is passed to `onContent` as it
+ * arrives; tool calls are assembled from their fragments. A server that answered without
+ * streaming is read as a single chunk.
+ */
+export async function readChatStream(
+  response: Response,
+  onContent: (text: string) => void
+): Promise<ChatMessage> {
+  if (!response.headers.get('Content-Type')?.includes('text/event-stream') || !response.body) {
+    const completion = (await response.json()) as { choices: Array<{ message: ChatMessage }> };
+    const message = completion.choices[0].message;
+    if (message.content) onContent(message.content);
+    return message;
+  }
+
+  let content = '';
+  const toolCalls: ChatToolCall[] = [];
+
+  const handleEvent = (data: string) => {
+    const chunk = JSON.parse(data) as ChatCompletionChunk;
+    if (chunk.error) {
+      throw new Error(`API stream failed: ${chunk.error.message ?? 'unknown error'}`);
+    }
+
+    const delta = chunk.choices?.[0]?.delta;
+    if (delta?.content) {
+      content += delta.content;
+      onContent(delta.content);
+    }
+
+    // Each tool call arrives in fragments keyed by its index; the arguments string is split
+    // across many chunks and is only valid JSON once complete
+    for (const fragment of delta?.tool_calls ?? []) {
+      const call = (toolCalls[fragment.index ?? 0] ??= {
+        id: '',
+        type: 'function',
+        function: { name: '', arguments: '' },
+      });
+      if (fragment.id) call.id = fragment.id;
+      if (fragment.function?.name) call.function.name += fragment.function.name;
+      if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments;
+    }
+  };
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let done = false;
+
+  while (!done) {
+    const read = await reader.read();
+    buffer += decoder.decode(read.value, { stream: !read.done });
+    done = read.done;
+
+    // Events are lines; keep a trailing partial line for the next read
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop()!;
+
+    for (const line of lines) {
+      if (!line.startsWith('data:')) continue;
+      const data = line.slice(5).trim();
+      if (data === '[DONE]') {
+        done = true;
+        break;
+      }
+      if (data) handleEvent(data);
+    }
+  }
+  await reader.cancel().catch(() => {});
+
+  const calls = toolCalls.filter(Boolean);
+  return {
+    role: 'assistant',
+    content: content || undefined,
+    tool_calls: calls.length > 0 ? calls : undefined,
+  };
+}
@@ -3,10 +3,23 @@
  * Manages authentication and API requests to Player2.gg
  */
 
+import { ChatMessage } from '../types/llm';
+import { readChatStream } from './chatStream';
+
 const DEFAULT_API_ENDPOINT = 'https://api.player2.game/v1';
 const API_BASE = import.meta.env.VITE_PLAYER2_ENDPOINT?.trim() || DEFAULT_API_ENDPOINT;
 const API_KEY_STORAGE_KEY = 'player2_api_key';
 
+export interface ChatCompletionParams {
+  messages: unknown[];
+  tools: unknown[];
+  tool_choice: string;
+}
+
+export interface ChatCompletion {
+  choices: Array<{ message: ChatMessage }>;
+}
+
 class Player2Service {
   private apiKey: string | null = null;
   private authMethod: 'cookie' | 'api_key' | null = null;
@@ -157,26 +170,24 @@ class Player2Service {
   /**
    * Make a chat completion request
    */
-  async chatCompletion(params: {
-    messages: unknown[];
-    tools: unknown[];
-    tool_choice: string;
-  }): Promise<{
-    choices: Array<{
-      message: {
-        role: string;
-        content?: string;
-        tool_calls?: Array<{
-          id: string;
-          function: {
-            name: string;
-            arguments: string;
-          };
-        }>;
-        tool_call_id?: string;
-      };
-    }>;
-  }> {
+  async chatCompletion(params: ChatCompletionParams): Promise<ChatCompletion> {
+    const response = await this.post('/chat/completions', params);
+    return response.json();
+  }
+
+  /**
+   * Make a streaming (SSE) chat completion request. Text is passed to `onContent` as it
+   * arrives. Resolves with the same shape as `chatCompletion` once the stream ends.
+   */
+  async chatCompletionStream(
+    params: ChatCompletionParams,
+    onContent: (text: string) => void
+  ): Promise<ChatCompletion> {
+    const response = await this.post('/chat/completions', { ...params, stream: true });
+    return { choices: [{ message: await readChatStream(response, onContent) }] };
+  }
+
+  private async post(path: string, body: unknown): Promise<Response> {
     if (!this.isAuthenticated()) {
       throw new Error('Not authenticated');
     }
@@ -190,10 +201,10 @@ class Player2Service {
       headers.Authorization = `Bearer ${this.apiKey}`;
     }
 
-    const response = await fetch(`${API_BASE}/chat/completions`, {
+    const response = await fetch(`${API_BASE}${path}`, {
       method: 'POST',
       headers,
-      body: JSON.stringify(params),
+      body: JSON.stringify(body),
       credentials: 'include',
     });
 
@@ -205,7 +216,7 @@ class Player2Service {
       throw new Error(`API request failed: ${response.statusText}`);
     }
 
-    return response.json();
+    return response;
   }
 }
 
@@ -0,0 +1,71 @@
+import { ChatMessage, ChatRequest, LLMCapabilities, LLMProvider } from '../../types/llm';
+import { readChatStream } from '../chatStream';
+
+export interface OpenAICompatibleConfig {
+  /** The API root, e.g. https://api.openai.com/v1 or http://localhost:11434/v1 */
+  baseUrl: string;
+  model?: string;
+  /** Local servers usually don't need one */
+  apiKey?: string;
+  capabilities?: Partial<LLMCapabilities>;
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API: hosted services as well as local ones
+ * such as Ollama, llama.cpp or LM Studio. Capabilities default to everything and can be
+ * turned off for servers that lack them.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  readonly capabilities: LLMCapabilities;
+
+  constructor(private config: OpenAICompatibleConfig) {
+    this.name = config.model ? `${config.model} (${config.baseUrl})` : config.baseUrl;
+    this.capabilities = { tools: true, streaming: true, jsonMode: true, ...config.capabilities };
+  }
+
+  async initialize(): Promise<void> {}
+
+  async isReady(): Promise<boolean> {
+    return true;
+  }
+
+  async complete(request: ChatRequest): Promise<ChatMessage> {
+    const response = await this.post(request, false);
+    const completion = (await response.json()) as { choices: Array<{ message: ChatMessage }> };
+    return completion.choices[0].message;
+  }
+
+  async stream(request: ChatRequest, onContent: (text: string) => void): Promise<ChatMessage> {
+    return readChatStream(await this.post(request, true), onContent);
+  }
+
+  private async post(request: ChatRequest, stream: boolean): Promise<Response> {
+    const { messages, tools, tool_choice, json } = request;
+    const body = {
+      model: this.config.model,
+      messages,
+      ...(tools?.length && this.capabilities.tools ? { tools, tool_choice } : {}),
+      ...(json && this.capabilities.jsonMode ? { response_format: { type: 'json_object' } } : {}),
+      ...(stream ? { stream: true } : {}),
+    };
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    if (this.config.apiKey) {
+      headers.Authorization = `Bearer ${this.config.apiKey}`;
+    }
+
+    const response = await fetch(`${this.config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      throw new Error(`${this.name} request failed: ${response.status} ${response.statusText}`);
+    }
+    return response;
+  }
+}
@@ -0,0 +1,31 @@
+import { ChatMessage, ChatRequest, LLMCapabilities, LLMProvider } from '../../types/llm';
+import { ChatCompletionParams, player2Service } from '../player2';
+
+/** The Player2 API, signed in through the browser cookie or an API key */
+export class Player2Provider implements LLMProvider {
+  readonly name = 'Player2';
+  readonly capabilities: LLMCapabilities = { tools: true, streaming: true, jsonMode: false };
+
+  initialize(): Promise<void> {
+    return player2Service.initialize();
+  }
+
+  isReady(): Promise<boolean> {
+    return player2Service.healthCheck();
+  }
+
+  async complete(request: ChatRequest): Promise<ChatMessage> {
+    const response = await player2Service.chatCompletion(this.params(request));
+    return response.choices[0].message;
+  }
+
+  async stream(request: ChatRequest, onContent: (text: string) => void): Promise<ChatMessage> {
+    const response = await player2Service.chatCompletionStream(this.params(request), onContent);
+    return response.choices[0].message;
+  }
+
+  /** The API expects both tool fields on every request, even without tools */
+  private params({ messages, tools, tool_choice }: ChatRequest): ChatCompletionParams {
+    return { messages, tools: tools ?? [], tool_choice: tool_choice ?? 'none' };
+  }
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { ScriptedProvider } from './ScriptedProvider';
+import { ChatRequest, ProviderScript } from '../../types/llm';
+
+const say = (content: string): ChatRequest => ({ messages: [{ role: 'user', content }] });
+
+/** Content of the replies to `inputs`, in order */
+async function play(script: ProviderScript, inputs: string[]): Promise<Array<string | undefined>> {
+  const provider = new ScriptedProvider(script);
+  const replies = [];
+  for (const input of inputs) replies.push((await provider.complete(say(input))).content);
+  return replies;
+}
+
+describe('ScriptedProvider', () => {
+  it('plays plain replies in order, then the fallback', async () => {
+    const script = {
+      replies: [{ content: 'One' }, { content: 'Two' }],
+      fallback: { content: '…' },
+    };
+
+    expect(await play(script, ['a', 'b', 'c', 'd'])).toEqual(['One', 'Two', '…', '…']);
+  });
+
+  it('fails once the replies run out without a fallback', async () => {
+    const provider = new ScriptedProvider({ replies: [{ content: 'Only' }] });
+    await provider.complete(say('a'));
+
+    await expect(provider.complete(say('b'))).rejects.toThrow(
+      'Scripted provider has no reply for turn 1'
+    );
+  });
+
+  it('prefers the reply for the current turn', async () => {
+    const script = {
+      replies: [
+        { content: 'Plain' },
+        { turn: 1, content: 'Second turn' },
+        { match: 'b', content: 'B' },
+      ],
+    };
+
+    expect(await play(script, ['a', 'b', 'b'])).toEqual(['Plain', 'Second turn', 'B']);
+  });
+
+  it('matches the latest user message ignoring case, or by regex', async () => {
+    const script = {
+      replies: [
+        { match: 'HELLO', content: 'Greeting' },
+        { match: '/^\\d+$/', content: 'Number' },
+        { match: '/bye/i', content: 'Farewell', repeat: true },
+        { content: 'Plain' },
+      ],
+      fallback: { content: 'Fallback' },
+    };
+
+    expect(await play(script, ['well hello', '42', 'Bye!', 'BYE', 'hello', '4 2'])).toEqual([
+      'Greeting',
+      'Number',
+      'Farewell',
+      'Farewell',
+      'Plain',
+      'Fallback',
+    ]);
+  });
+
+  it('answers JSON requests with an empty object without using a turn', async () => {
+    const provider = new ScriptedProvider({ replies: [{ turn: 0, content: 'First' }] });
+
+    expect((await provider.complete({ ...say('who speaks?'), json: true })).content).toBe('{}');
+    expect((await provider.complete(say('hi'))).content).toBe('First');
+    expect(provider.getTurn()).toBe(1);
+    expect(provider.requests).toHaveLength(2);
+  });
+
+  it('writes tool calls as CALL lines when tools are off', async () => {
+    const script: ProviderScript = {
+      replies: [
+        {
+          content: 'Done.',
+          tool_calls: [{ name: 'player2_end_scene', arguments: { result: 'success' } }],
+        },
+      ],
+      capabilities: { tools: false },
+    };
+
+    expect(await new ScriptedProvider(script).complete(say('hi'))).toEqual({
+      role: 'assistant',
+      content: 'Done.\nCALL player2_end_scene {"result":"success"}',
+    });
+  });
+
+  it('streams the reply word by word', async () => {
+    const chunks: string[] = [];
+    const message = await new ScriptedProvider({ replies: [{ content: 'Two words.' }] }).stream(
+      say('hi'),
+      (text) => chunks.push(text)
+    );
+
+    expect(chunks).toEqual(['Two ', 'words.']);
+    expect(message.content).toBe('Two words.');
+  });
+});
@@ -0,0 +1,109 @@
+import {
+  ChatMessage,
+  ChatRequest,
+  LLMCapabilities,
+  LLMProvider,
+  ProviderScript,
+  ScriptedReply,
+} from '../../types/llm';
+
+/**
+ * Plays canned replies instead of calling a model, so scenes can be run without a backend and
+ * give the same result every time. Each request is answered by, in order of preference: the
+ * reply for its turn, the first reply matching the latest user message, the next plain reply,
+ * then the script's fallback. Requests for JSON (the scene director's) get an empty object
+ * and don't count as a turn.
+ */
+export class ScriptedProvider implements LLMProvider {
+  readonly name = 'Scripted';
+  readonly capabilities: LLMCapabilities;
+  /** Every request received, for tests to inspect */
+  readonly requests: ChatRequest[] = [];
+  private turn = 0;
+  private used = new Set<ScriptedReply>();
+
+  constructor(private script: ProviderScript) {
+    this.capabilities = { tools: true, streaming: true, jsonMode: true, ...script.capabilities };
+  }
+
+  async initialize(): Promise<void> {}
+
+  async isReady(): Promise<boolean> {
+    return true;
+  }
+
+  async complete(request: ChatRequest): Promise<ChatMessage> {
+    this.requests.push(request);
+    if (request.json) return { role: 'assistant', content: '{}' };
+
+    const reply = this.nextReply(request);
+    if (!reply) {
+      throw new Error(`Scripted provider has no reply for turn ${this.turn}`);
+    }
+    if (!reply.repeat) this.used.add(reply);
+
+    const message = this.toMessage(reply);
+    this.turn++;
+    return message;
+  }
+
+  async stream(request: ChatRequest, onContent: (text: string) => void): Promise<ChatMessage> {
+    const message = await this.complete(request);
+    // Word by word, like a model would
+    for (const word of message.content?.match(/\S+\s*/g) ?? []) onContent(word);
+    return message;
+  }
+
+  /** Number of turns answered so far */
+  getTurn(): number {
+    return this.turn;
+  }
+
+  private nextReply(request: ChatRequest): ScriptedReply | undefined {
+    const available = this.script.replies.filter((reply) => !this.used.has(reply));
+    const input = this.latestUserMessage(request);
+
+    return (
+      available.find((reply) => reply.turn === this.turn) ??
+      available.find(
+        (reply) => reply.turn === undefined && reply.match && matches(reply.match, input)
+      ) ??
+      available.find((reply) => reply.turn === undefined && reply.match === undefined) ??
+      this.script.fallback
+    );
+  }
+
+  private latestUserMessage({ messages }: ChatRequest): string {
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const message = messages[i] as ChatMessage;
+      if (message.role === 'user') return message.content ?? '';
+    }
+    return '';
+  }
+
+  /** Without tool calling, calls are written as CALL lines, as a model would have to */
+  private toMessage(reply: ScriptedReply): ChatMessage {
+    const calls = (reply.tool_calls ?? []).map((call, i) => ({
+      id: `scripted_${this.turn}_${i}`,
+      type: 'function' as const,
+      function: { name: call.name, arguments: JSON.stringify(call.arguments ?? {}) },
+    }));
+
+    if (!this.capabilities.tools) {
+      const lines = calls.map((call) => `CALL ${call.function.name} ${call.function.arguments}`);
+      return { role: 'assistant', content: [reply.content ?? '', ...lines].join('\n').trim() };
+    }
+    return {
+      role: 'assistant',
+      content: reply.content,
+      tool_calls: calls.length > 0 ? calls : undefined,
+    };
+  }
+}
+
+/** `pattern` is a substring to look for, ignoring case, or a /regex/ */
+function matches(pattern: string, input: string): boolean {
+  const regex = pattern.match(/^\/(.*)\/([a-z]*)$/s);
+  if (regex) return new RegExp(regex[1], regex[2]).test(input);
+  return input.toLowerCase().includes(pattern.toLowerCase());
+}
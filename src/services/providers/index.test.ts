@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  createProvider,
+  loadProviderSettings,
+  OpenAICompatibleProvider,
+  saveProviderSettings,
+  savedProviderSettings,
+  ScriptedProvider,
+} from './index';
+
+describe('provider settings', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('falls back to the environment when nothing usable is saved', () => {
+    expect(savedProviderSettings()).toBeNull();
+    expect(loadProviderSettings().kind).toBe('player2');
+
+    localStorage.setItem('llm_provider', '{not json');
+    expect(savedProviderSettings()).toBeNull();
+  });
+
+  it('round-trips saved settings', () => {
+    saveProviderSettings({ kind: 'openai', baseUrl: 'http://localhost:1234/v1' });
+    expect(loadProviderSettings()).toEqual({ kind: 'openai', baseUrl: 'http://localhost:1234/v1' });
+
+    saveProviderSettings(null);
+    expect(savedProviderSettings()).toBeNull();
+  });
+
+  it('creates the configured provider', async () => {
+    const provider = await createProvider({ kind: 'openai', baseUrl: '/api/v1', model: 'local' });
+    expect(provider).toBeInstanceOf(OpenAICompatibleProvider);
+    expect(provider.name).toBe('local (/api/v1)');
+  });
+
+  it('refuses settings a provider cannot be created from', async () => {
+    await expect(createProvider({ kind: 'openai' })).rejects.toThrow('needs a base URL');
+    await expect(createProvider({ kind: 'scripted' })).rejects.toThrow('needs a script URL');
+
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response(null, { status: 404, statusText: 'Not Found' }))
+    );
+    await expect(createProvider({ kind: 'scripted', scriptUrl: '/missing.json' })).rejects.toThrow(
+      'Failed to load script /missing.json: Not Found'
+    );
+  });
+
+  it('loads a script and lets the settings override its capabilities', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => Response.json({ replies: [], capabilities: { tools: false } }))
+    );
+
+    const provider = await createProvider({
+      kind: 'scripted',
+      scriptUrl: '/script.json',
+      capabilities: { tools: true, streaming: false, jsonMode: true },
+    });
+    expect(provider).toBeInstanceOf(ScriptedProvider);
+    expect(provider.capabilities).toEqual({ tools: true, streaming: false, jsonMode: true });
+  });
+});
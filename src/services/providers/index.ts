@@ -0,0 +1,102 @@
+import {
+  LLMCapabilities,
+  LLMProvider,
+  ProviderKind,
+  ProviderScript,
+  ProviderSettings,
+} from '../../types/llm';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+import { Player2Provider } from './Player2Provider';
+import { ScriptedProvider } from './ScriptedProvider';
+
+export { OpenAICompatibleProvider, Player2Provider, ScriptedProvider };
+
+const SETTINGS_STORAGE_KEY = 'llm_provider';
+const PROVIDER_KINDS: ProviderKind[] = ['player2', 'openai', 'scripted'];
+
+/**
+ * The provider configured by the environment: VITE_LLM_PROVIDER picks the kind (player2 by
+ * default), VITE_LLM_BASE_URL, VITE_LLM_MODEL, VITE_LLM_API_KEY and VITE_LLM_SCRIPT configure
+ * it, and VITE_LLM_CAPABILITIES (e.g. "streaming,json") lists what an OpenAI-compatible
+ * server supports.
+ */
+export function environmentProviderSettings(): ProviderSettings {
+  const env = import.meta.env;
+  const kind = env.VITE_LLM_PROVIDER?.trim() as ProviderKind | undefined;
+  const capabilities: string | undefined = env.VITE_LLM_CAPABILITIES?.trim();
+  const listed = capabilities?.split(',').map((c) => c.trim());
+
+  return {
+    kind: kind && PROVIDER_KINDS.includes(kind) ? kind : 'player2',
+    baseUrl: env.VITE_LLM_BASE_URL?.trim() || undefined,
+    model: env.VITE_LLM_MODEL?.trim() || undefined,
+    apiKey: env.VITE_LLM_API_KEY?.trim() || undefined,
+    scriptUrl: env.VITE_LLM_SCRIPT?.trim() || undefined,
+    capabilities: listed && {
+      tools: listed.includes('tools'),
+      streaming: listed.includes('streaming'),
+      jsonMode: listed.includes('json'),
+    },
+  };
+}
+
+/** The player's choice from the settings screen, if they made one */
+export function savedProviderSettings(): ProviderSettings | null {
+  const saved = localStorage.getItem(SETTINGS_STORAGE_KEY);
+  if (saved) {
+    try {
+      return JSON.parse(saved) as ProviderSettings;
+    } catch (error) {
+      console.warn('Ignoring unreadable provider settings:', error);
+    }
+  }
+  return null;
+}
+
+/** The player's choice from the settings screen, falling back to the environment */
+export function loadProviderSettings(): ProviderSettings {
+  return savedProviderSettings() ?? environmentProviderSettings();
+}
+
+/** Save the settings screen's choice; null goes back to the environment's */
+export function saveProviderSettings(settings: ProviderSettings | null): void {
+  if (settings) {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } else {
+    localStorage.removeItem(SETTINGS_STORAGE_KEY);
+  }
+}
+
+export async function createProvider(settings: ProviderSettings): Promise<LLMProvider> {
+  switch (settings.kind) {
+    case 'player2':
+      return new Player2Provider();
+
+    case 'openai':
+      if (!settings.baseUrl) {
+        throw new Error('The OpenAI-compatible provider needs a base URL (VITE_LLM_BASE_URL)');
+      }
+      return new OpenAICompatibleProvider({
+        baseUrl: settings.baseUrl,
+        model: settings.model,
+        apiKey: settings.apiKey,
+        capabilities: settings.capabilities,
+      });
+
+    case 'scripted': {
+      if (!settings.scriptUrl) {
+        throw new Error('The scripted provider needs a script URL (VITE_LLM_SCRIPT)');
+      }
+      const response = await fetch(settings.scriptUrl);
+      if (!response.ok) {
+        throw new Error(`Failed to load script ${settings.scriptUrl}: ${response.statusText}`);
+      }
+      const script = (await response.json()) as ProviderScript;
+      const capabilities: Partial<LLMCapabilities> = {
+        ...script.capabilities,
+        ...settings.capabilities,
+      };
+      return new ScriptedProvider({ ...script, capabilities });
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useGameStore } from './gameStore';
+import { GameBlueprint, ItemBlueprint } from '../types/blueprints';
+import { testGameFiles } from '../test/fixtures';
+
+const game = testGameFiles()['blueprints/game.json'] as GameBlueprint;
+const key = testGameFiles()['blueprints/en_US/items/key.json'] as ItemBlueprint;
+
+describe('gameStore.newGame', () => {
+  beforeEach(() => useGameStore.getState().reset());
+
+  it('seeds flags, variable defaults and the starting route', () => {
+    useGameStore.getState().newGame(game);
+
+    const state = useGameStore.getState();
+    expect(state.flags).toEqual({ arrived: true });
+    expect(state.vars).toEqual({ trust: 0 });
+    expect(state.unlocked_routes).toEqual(['main_route']);
+  });
+
+  it('lets initial_state override variable defaults and unlock more routes', () => {
+    useGameStore.getState().newGame({
+      ...game,
+      variables: [
+        ...(game.variables ?? []),
+        { name: 'mood', type: 'string', default: 'calm' },
+        { name: 'met', type: 'boolean', default: false },
+      ],
+      initial_state: {
+        vars: { trust: 4 },
+        unlocked_routes: ['bonus_route', 'main_route'],
+      },
+    });
+
+    const state = useGameStore.getState();
+    expect(state.flags).toEqual({});
+    expect(state.vars).toEqual({ trust: 4, mood: 'calm', met: false });
+    expect(state.unlocked_routes).toEqual(['main_route', 'bonus_route']);
+  });
+
+  it('clears the previous playthrough', () => {
+    const store = useGameStore.getState();
+    store.setAffinity('riley', 3);
+    store.setFlag('met_riley', true);
+    store.completeGoal('befriend_riley');
+
+    store.newGame(game);
+
+    const state = useGameStore.getState();
+    expect(state.affinity).toEqual({});
+    expect(state.flags).toEqual({ arrived: true });
+    expect(state.completed_goals).toEqual([]);
+  });
+});
+
+describe('gameStore.acquired_items', () => {
+  beforeEach(() => {
+    useGameStore.getState().newGame(game);
+    useGameStore.setState({ current_scene: 'scene_1' });
+  });
+
+  it('records where the player got an item and from whom', () => {
+    const store = useGameStore.getState();
+    store.addItem(key);
+    store.addItem({ ...key, id: 'map' }, 'riley');
+
+    expect(useGameStore.getState().acquired_items).toEqual([
+      { item_id: 'key', scene_id: 'scene_1' },
+      { item_id: 'map', scene_id: 'scene_1', character_id: 'riley' },
+    ]);
+  });
+
+  it('records items transferred to the player but not away from them', () => {
+    const store = useGameStore.getState();
+    store.seedInventory('riley', [key]);
+    store.transferItem('riley', 'mc', 'key');
+    store.transferItem('mc', 'sam', 'key');
+
+    const state = useGameStore.getState();
+    expect(state.acquired_items).toEqual([
+      { item_id: 'key', scene_id: 'scene_1', character_id: 'riley' },
+    ]);
+    expect(state.character_inventories.sam).toEqual([key]);
+  });
+});
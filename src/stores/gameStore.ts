@@ -1,35 +1,76 @@
 import { create } from 'zustand';
-import { GameState } from '../types/state';
-import { ItemBlueprint } from '../types/blueprints';
+import { GameState, ItemAcquisition } from '../types/state';
+import { GameBlueprint, ItemBlueprint, VariableValue } from '../types/blueprints';
+import { initialVars } from '../utils/variables';
 
 interface GameStore extends GameState {
+  /** Set on new game; transfers to and from this character use `inventory` */
+  player_character_id: string;
   introduced_characters: string[];
   markCharacterIntroduced: (charId: string) => void;
   setAffinity: (charId: string, delta: number) => void;
   setFlag: (flagId: string, value: boolean) => void;
-  setVar: (key: string, value: unknown) => void;
-  addItem: (item: ItemBlueprint) => void;
+  setVar: (key: string, value: VariableValue) => void;
+  /** Give the player an item, recording `fromId` and the current scene in `acquired_items` */
+  addItem: (item: ItemBlueprint, fromId?: string) => void;
   removeItem: (itemId: string) => void;
-  transferItem: (fromId: string, toId: string, itemId: string) => void;
+  /** Give a character their blueprint inventory unless they already have a runtime one */
+  seedInventory: (charId: string, items: ItemBlueprint[]) => void;
+  /** Move an item between two characters. Returns false when the sender doesn't hold it */
+  transferItem: (fromId: string, toId: string, itemId: string) => boolean;
   updateDossier: (type: 'objective' | 'note', text: string) => void;
   clearObjectives: () => void;
   setCurrentScene: (route: string, chapter: string, scene: string) => void;
   unlockRoute: (routeId: string) => void;
+  completeGoal: (goalId: string) => void;
+  completeRoute: (routeId: string) => void;
   reset: () => void;
+  /**
+   * Reset, then seed the state from the game's variables, `initial_state` and the player
+   * character's blueprint inventory
+   */
+  newGame: (game: GameBlueprint, playerInventory?: ItemBlueprint[]) => void;
   save: () => void;
   load: () => void;
 }
 
+function inventoryOf(state: GameStore, charId: string): ItemBlueprint[] {
+  return charId === state.player_character_id
+    ? state.inventory
+    : (state.character_inventories[charId] ?? []);
+}
+
+function withInventory(
+  state: GameStore,
+  charId: string,
+  items: ItemBlueprint[]
+): Pick<GameState, 'inventory'> | Pick<GameState, 'character_inventories'> {
+  return charId === state.player_character_id
+    ? { inventory: items }
+    : { character_inventories: { ...state.character_inventories, [charId]: items } };
+}
+
+function acquisition(state: GameStore, itemId: string, fromId?: string): ItemAcquisition {
+  return fromId
+    ? { item_id: itemId, scene_id: state.current_scene, character_id: fromId }
+    : { item_id: itemId, scene_id: state.current_scene };
+}
+
 export const useGameStore = create<GameStore>((set, get) => ({
   affinity: {},
   flags: {},
   vars: {},
   inventory: [],
+  character_inventories: {},
+  acquired_items: [],
+  player_character_id: '',
   dossier: { objectives: [], notes: [] },
   current_route: '',
   current_chapter: '',
   current_scene: '',
   unlocked_routes: [],
+  completed_goals: [],
+  completed_routes: [],
   introduced_characters: [],
 
   markCharacterIntroduced: (charId) =>
@@ -54,9 +95,10 @@ export const useGameStore = create<GameStore>((set, get) => ({
       vars: { ...state.vars, [key]: value },
     })),
 
-  addItem: (item) =>
+  addItem: (item, fromId) =>
     set((state) => ({
       inventory: [...state.inventory, item],
+      acquired_items: [...state.acquired_items, acquisition(state, item.id, fromId)],
     })),
 
   removeItem: (itemId) =>
@@ -64,13 +106,32 @@ export const useGameStore = create<GameStore>((set, get) => ({
       inventory: state.inventory.filter((i) => i.id !== itemId),
     })),
 
-  transferItem: (_fromId, _toId, itemId) => {
-    set((state) => {
-      if (state.inventory.some((i) => i.id === itemId)) {
-        return state;
-      }
-      return state;
-    });
+  seedInventory: (charId, items) =>
+    set((state) =>
+      charId === state.player_character_id || charId in state.character_inventories
+        ? state
+        : { character_inventories: { ...state.character_inventories, [charId]: items } }
+    ),
+
+  transferItem: (fromId, toId, itemId) => {
+    const state = get();
+    const from = inventoryOf(state, fromId);
+    const item = from.find((i) => i.id === itemId);
+    if (!item || fromId === toId) return false;
+
+    set(
+      withInventory(
+        state,
+        fromId,
+        from.filter((i) => i !== item)
+      )
+    );
+    if (toId === state.player_character_id) {
+      get().addItem(item, fromId);
+    } else {
+      set((next) => withInventory(next, toId, [...inventoryOf(next, toId), item]));
+    }
+    return true;
   },
 
   updateDossier: (type, text) =>
@@ -113,20 +174,52 @@ export const useGameStore = create<GameStore>((set, get) => ({
         : [...state.unlocked_routes, routeId],
     })),
 
+  completeGoal: (goalId) =>
+    set((state) => ({
+      completed_goals: state.completed_goals.includes(goalId)
+        ? state.completed_goals
+        : [...state.completed_goals, goalId],
+    })),
+
+  completeRoute: (routeId) =>
+    set((state) => ({
+      completed_routes: state.completed_routes.includes(routeId)
+        ? state.completed_routes
+        : [...state.completed_routes, routeId],
+    })),
+
   reset: () =>
     set({
       affinity: {},
       flags: {},
       vars: {},
       inventory: [],
+      character_inventories: {},
+      acquired_items: [],
       dossier: { objectives: [], notes: [] },
       current_route: '',
       current_chapter: '',
       current_scene: '',
       unlocked_routes: [],
+      completed_goals: [],
+      completed_routes: [],
       introduced_characters: [],
     }),
 
+  newGame: (game, playerInventory = []) => {
+    get().reset();
+    const initial = game.initial_state;
+    set({
+      player_character_id: game.player_character_id,
+      inventory: playerInventory,
+      flags: { ...initial?.flags },
+      vars: initialVars(game),
+      unlocked_routes: Array.from(
+        new Set([game.starting_route, ...(initial?.unlocked_routes ?? [])])
+      ),
+    });
+  },
+
   save: () => {
     const state = get();
     localStorage.setItem('vn_save', JSON.stringify(state));
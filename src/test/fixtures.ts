@@ -0,0 +1,128 @@
+import { MemoryBlueprintSource } from '../core/sources/MemoryBlueprintSource';
+import { GameState } from '../types/state';
+
+const view = { default: { uri: '/assets/placeholder.svg' } };
+
+function character(id: string, name: string, role = 'npc') {
+  return {
+    id,
+    name,
+    role,
+    view,
+    identity: {
+      personality: `${name}'s personality`,
+      background: `${name}'s background`,
+      speaking_style: 'Plain',
+    },
+    voice: {},
+    inventory: [],
+  };
+}
+
+/**
+ * Blueprint files of a small game, keyed by path as a MemoryBlueprintSource expects: the player
+ * meets Riley in scene_1 (befriending them leads to scene_2) and talks to Riley and Sam in
+ * scene_2. Korean is a partial translation of the English base.
+ */
+export function testGameFiles(): Record<string, unknown> {
+  return {
+    'blueprints/languages.json': ['en_US', 'ko_KR'],
+    'blueprints/game.json': {
+      id: 'test_game',
+      title: 'Test Game',
+      version: '1.0.0',
+      description: 'A game for tests',
+      authors: ['Tests'],
+      player_character_id: 'mc',
+      routes: ['main_route'],
+      starting_route: 'main_route',
+      theme: 'default',
+      variables: [{ name: 'trust', type: 'number', default: 0, min: 0, max: 10 }],
+      initial_state: { flags: { arrived: true } },
+    },
+    'themes/default.json': {
+      id: 'default',
+      name: 'Default',
+      colors: { primary: '#000', secondary: '#111', background: '#222', text: '#fff' },
+      fonts: { heading: 'serif', body: 'serif', dialogue: 'serif' },
+    },
+    'blueprints/en_US/routes.json': [
+      {
+        id: 'main_route',
+        title: 'Main',
+        description: 'The main route',
+        chapters: ['chapter_1'],
+        starting_chapter: 'chapter_1',
+      },
+    ],
+    'blueprints/en_US/chapters.json': [
+      { id: 'chapter_1', title: 'Chapter 1', intro: 'It begins', scenes: ['scene_1', 'scene_2'] },
+    ],
+    'blueprints/en_US/characters/index.json': ['mc', 'riley', 'sam'],
+    'blueprints/en_US/characters/mc.json': character('mc', 'Alex', 'player'),
+    'blueprints/en_US/characters/riley.json': character('riley', 'Riley'),
+    'blueprints/en_US/characters/sam.json': character('sam', 'Sam'),
+    'blueprints/en_US/items/index.json': ['key'],
+    'blueprints/en_US/items/key.json': {
+      id: 'key',
+      name: 'Key',
+      description: 'A rusty key',
+      image: { uri: '/assets/key.svg' },
+    },
+    'blueprints/en_US/scenes/index.json': ['scene_1', 'scene_2'],
+    'blueprints/en_US/scenes/scene_1.json': {
+      id: 'scene_1',
+      title: 'First Meeting',
+      view,
+      prompt: 'You meet Riley.',
+      characters: ['mc', 'riley'],
+      intro: 'Someone approaches.',
+      goals: [
+        {
+          id: 'befriend_riley',
+          character_id: 'riley',
+          description: 'Become friends',
+          on_complete: { transition_to: 'scene_2', give_items: ['key'] },
+        },
+      ],
+    },
+    'blueprints/en_US/scenes/scene_2.json': {
+      id: 'scene_2',
+      title: 'Together',
+      view,
+      prompt: 'Riley introduces Sam.',
+      characters: ['mc', 'riley', 'sam'],
+      goals: [{ id: 'meet_sam', character_id: 'sam', description: 'Meet Sam', on_complete: {} }],
+    },
+    'blueprints/ko_KR/scenes/scene_1.json': {
+      id: 'scene_1',
+      title: '첫 만남',
+      prompt: '라일리를 만난다.',
+    },
+  };
+}
+
+/** A source serving testGameFiles(), with `overrides` replacing or adding files */
+export function testGameSource(overrides: Record<string, unknown> = {}): MemoryBlueprintSource {
+  return new MemoryBlueprintSource({ ...testGameFiles(), ...overrides });
+}
+
+/** An empty game state with `patch` applied */
+export function testGameState(patch: Partial<GameState> = {}): GameState {
+  return {
+    affinity: {},
+    flags: {},
+    vars: {},
+    inventory: [],
+    character_inventories: {},
+    acquired_items: [],
+    dossier: { objectives: [], notes: [] },
+    current_route: '',
+    current_chapter: '',
+    current_scene: '',
+    unlocked_routes: [],
+    completed_goals: [],
+    completed_routes: [],
+    ...patch,
+  };
+}
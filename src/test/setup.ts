@@ -1 +1,9 @@
 import '@testing-library/jest-dom';
+import { afterEach } from 'vitest';
+import { useGameStore } from '../stores/gameStore';
+
+// Every test starts without saves, settings or game state left over from the last one
+afterEach(() => {
+  localStorage.clear();
+  useGameStore.getState().reset();
+});
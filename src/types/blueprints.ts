@@ -44,18 +44,57 @@ export interface CharacterBlueprint {
   inventory: ItemBlueprint[];
 }
 
+/** How a scene ended, as reported by `player2_end_scene` */
+export type SceneOutcome = 'success' | 'neutral' | 'fail';
+
+/** One option of a conditional transition; see ConditionEvaluator for the `when` syntax */
+export interface ConditionalTransition {
+  to: string;
+  when?: string;
+}
+
+/** A scene id, or options tried in order, taking the first whose `when` holds */
+export type SceneTransition = string | ConditionalTransition[];
+
+/** What the player can do with an item from their inventory during a conversation */
+export type ItemAction = 'show' | 'give' | 'use';
+
 export interface GoalBlueprint {
   id: string;
   character_id?: string;
   description: string;
+  /** The goal is only pursued when this condition holds as the scene starts */
+  when?: string;
+
+  /**
+   * Completes the goal when the player performs this item action with the goal's character
+   * (or anyone, without `character_id`). The NPC reacts, then the scene ends successfully.
+   */
+  trigger?: {
+    action: ItemAction;
+    item_id: string;
+  };
 
+  /** Applied when the AI reports this goal as completed */
   on_complete: {
-    transition_to?: string;
+    /** Next scene when the scene ends successfully with this goal completed */
+    transition_to?: SceneTransition;
+    /** Items given to the player */
     give_items?: string[];
     unlock_route?: string;
   };
 }
 
+/** NPCs talking among themselves for a few lines while the player listens */
+export interface ExchangeBlueprint {
+  /** NPC ids; the first one opens, then they take turns */
+  participants: string[];
+  /** What they talk about, e.g. "Riley and Sam argue over who lost the key" */
+  topic: string;
+  /** Lines spoken before the player gets control back; defaults to 4 */
+  lines?: number;
+}
+
 export interface SceneBlueprint {
   id: string;
   title: string;
@@ -73,15 +112,24 @@ export interface SceneBlueprint {
 
   goals: GoalBlueprint[];
 
+  /** Next scene per outcome, used unless the completed goal has its own `transition_to` */
+  transitions?: Partial<Record<SceneOutcome, SceneTransition>>;
+
+  /** Played after the intro, before the player speaks. Needs at least two NPCs */
+  opening_exchange?: ExchangeBlueprint;
+
   intro?: string;
   outro?: string;
 }
 
+/** A scene id, or a scene that is skipped unless its `when` condition holds */
+export type ChapterSceneEntry = string | { id: string; when?: string };
+
 export interface ChapterBlueprint {
   id: string;
   title: string;
   intro: string;
-  scenes: string[];
+  scenes: ChapterSceneEntry[];
 }
 
 export interface RouteBlueprint {
@@ -91,9 +139,21 @@ export interface RouteBlueprint {
   chapters: string[];
   starting_chapter: string;
 
+  /** Ending screen shown after the last scene of the route's last chapter */
+  ending?: {
+    title: string;
+    description: string;
+    image?: ImageBlueprint;
+  };
+
+  /** All must hold for the route to unlock; see RouteRequirements */
   requirements?: {
     unlocked_routes?: string[];
+    completed_routes?: string[];
     flags?: Record<string, boolean>;
+    /** What the player is told about each of `flags`, keyed by flag id, e.g. "Meet Riley" */
+    flag_hints?: Record<string, string>;
+    /** Minimum affinity per character id */
     affinity?: Record<string, number>;
   };
 }
@@ -102,6 +162,11 @@ export interface ThemeBlueprint {
   id: string;
   name: string;
 
+  /** Theme CSS styling the universal `.vn-*` classes, e.g. `/themes/miami_metro.css` */
+  stylesheet?: string;
+  /** Web font stylesheets (e.g. Google Fonts) loaded alongside the theme */
+  font_urls?: string[];
+
   colors: {
     primary: string;
     secondary: string;
@@ -131,6 +196,24 @@ export interface ThemeBlueprint {
   };
 }
 
+export type VariableType = 'number' | 'boolean' | 'string';
+
+export type VariableValue = number | boolean | string;
+
+/**
+ * A story variable (`vars.<name>` in conditions). Writes are checked against its type and,
+ * for numbers, its bounds.
+ */
+export interface VariableDeclaration {
+  name: string;
+  type: VariableType;
+  default: VariableValue;
+  description?: string;
+  /** Number variables only; inclusive */
+  min?: number;
+  max?: number;
+}
+
 export interface GameBlueprint {
   id: string;
   title: string;
@@ -144,9 +227,13 @@ export interface GameBlueprint {
 
   main_menu_image?: ImageBlueprint;
 
+  variables?: VariableDeclaration[];
+
+  /** Applied on new game, on top of the variables' defaults */
   initial_state?: {
     flags?: Record<string, boolean>;
-    vars?: Record<string, unknown>;
+    vars?: Record<string, VariableValue>;
+    /** In addition to the starting route, which is always unlocked */
     unlocked_routes?: string[];
   };
 
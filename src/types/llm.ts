@@ -0,0 +1,96 @@
+import { ToolDefinition } from './tools';
+
+export interface ChatToolCall {
+  id: string;
+  type?: 'function';
+  function: {
+    name: string;
+    /** JSON-encoded; only valid once the whole call has arrived */
+    arguments: string;
+  };
+}
+
+export interface ChatMessage {
+  role: string;
+  content?: string;
+  tool_calls?: ChatToolCall[];
+  tool_call_id?: string;
+}
+
+export interface ChatRequest {
+  messages: unknown[];
+  /** Left out when the provider can't call tools */
+  tools?: ToolDefinition[];
+  tool_choice?: 'auto' | 'none';
+  /** Ask for a JSON object reply; only honoured when the provider supports JSON mode */
+  json?: boolean;
+}
+
+/** What a provider can do; the engine works around whatever is missing */
+export interface LLMCapabilities {
+  /** Native function calling. Without it, tool calls are written as text lines */
+  tools: boolean;
+  /** Streamed replies. Without it, dialogue is shown once the reply is complete */
+  streaming: boolean;
+  /** Guaranteed JSON object replies. Without it, JSON is picked out of the reply text */
+  jsonMode: boolean;
+}
+
+/** A backend that answers chat completions for NPCs and the scene director */
+export interface LLMProvider {
+  /** Shown in settings and error messages */
+  readonly name: string;
+  readonly capabilities: LLMCapabilities;
+
+  /** Prepare the provider, e.g. restore saved credentials. Called once at startup */
+  initialize(): Promise<void>;
+
+  /** Whether requests can be made right now, e.g. the player is signed in */
+  isReady(): Promise<boolean>;
+
+  complete(request: ChatRequest): Promise<ChatMessage>;
+
+  /** Like `complete`, passing text to `onContent` as it arrives. Needs `capabilities.streaming` */
+  stream(request: ChatRequest, onContent: (text: string) => void): Promise<ChatMessage>;
+}
+
+export type ProviderKind = 'player2' | 'openai' | 'scripted';
+
+/** Which provider to use and how to reach it, from the settings screen or the environment */
+export interface ProviderSettings {
+  kind: ProviderKind;
+  /** OpenAI-compatible: the API root, e.g. http://localhost:11434/v1 */
+  baseUrl?: string;
+  model?: string;
+  apiKey?: string;
+  /** Scripted: URL of the JSON script to play */
+  scriptUrl?: string;
+  /** Overrides the provider's capability flags, e.g. for a local server without tool calling */
+  capabilities?: Partial<LLMCapabilities>;
+}
+
+/**
+ * A canned model reply played by the scripted provider. Without `turn` or `match` it is played
+ * in order with the other plain replies.
+ */
+export interface ScriptedReply {
+  content?: string;
+  tool_calls?: Array<{ name: string; arguments?: Record<string, unknown> }>;
+  /** Answer only this request, counting from 0 */
+  turn?: number;
+  /**
+   * Answer when the latest user message contains this text, ignoring case. Wrapped in
+   * slashes (e.g. "/^hi\\b/") it is a regular expression
+   */
+  match?: string;
+  /** Keep answering matching requests instead of being used up by the first */
+  repeat?: boolean;
+}
+
+/** The JSON file a scripted provider plays, e.g. for demos and tests without a model */
+export interface ProviderScript {
+  replies: ScriptedReply[];
+  /** Played when no reply is left for a request; without it the request fails */
+  fallback?: ScriptedReply;
+  capabilities?: Partial<LLMCapabilities>;
+}
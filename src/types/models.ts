@@ -8,5 +8,8 @@ export interface CharacterModel {
 export interface SceneModel {
   blueprint: SceneBlueprint;
   characters: Map<string, CharacterModel>;
+  /** The NPC speaking, or the last one who spoke */
   activeCharacter: string;
+  /** The scene's goals whose `when` held when the scene started */
+  goals: GoalBlueprint[];
 }
@@ -0,0 +1,21 @@
+/**
+ * The subset of JSON Schema understood by the runtime validator. Schemas written with it can be
+ * emitted verbatim as JSON Schema files for editor autocomplete.
+ */
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  title?: string;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: (string | number | boolean)[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  /** The value must match at least one of these schemas */
+  anyOf?: JsonSchema[];
+  /** `condition`: a string in the ConditionEvaluator expression language */
+  format?: 'condition';
+}
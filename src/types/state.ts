@@ -1,10 +1,26 @@
-import { ItemBlueprint } from './blueprints';
+import { ItemBlueprint, VariableValue } from './blueprints';
+
+/** Where the player got an item */
+export interface ItemAcquisition {
+  item_id: string;
+  scene_id: string;
+  /** The character who handed it over, if any */
+  character_id?: string;
+}
 
 export interface GameState {
   affinity: Record<string, number>;
   flags: Record<string, boolean>;
-  vars: Record<string, unknown>;
+  vars: Record<string, VariableValue>;
+  /** The player's items */
   inventory: ItemBlueprint[];
+  /**
+   * Every other character's items, by character id. Seeded from the character's blueprint the
+   * first time they appear in a scene.
+   */
+  character_inventories: Record<string, ItemBlueprint[]>;
+  /** Every item the player received, oldest first */
+  acquired_items: ItemAcquisition[];
   dossier: {
     objectives: string[];
     notes: string[];
@@ -13,4 +29,8 @@ export interface GameState {
   current_chapter: string;
   current_scene: string;
   unlocked_routes: string[];
+  /** Ids of the scene goals the player has completed */
+  completed_goals: string[];
+  /** Ids of the routes played through to the end */
+  completed_routes: string[];
 }
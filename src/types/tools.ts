@@ -0,0 +1,20 @@
+import { JsonSchema } from './schema';
+
+/** A function tool as sent to the chat completion API */
+export interface ToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    /** Also used to validate the arguments of every call the model makes */
+    parameters: JsonSchema;
+  };
+}
+
+/** A tool call from the model that wasn't executed because its arguments were invalid */
+export interface ToolCallRejection {
+  tool: string;
+  /** The raw arguments string the model sent */
+  arguments: string;
+  errors: string[];
+}
@@ -0,0 +1,20 @@
+import { ChapterBlueprint, ChapterSceneEntry, SceneTransition } from '../types/blueprints';
+
+export function sceneEntryId(entry: ChapterSceneEntry): string {
+  return typeof entry === 'string' ? entry : entry.id;
+}
+
+export function sceneEntryCondition(entry: ChapterSceneEntry): string | undefined {
+  return typeof entry === 'string' ? undefined : entry.when;
+}
+
+/** Ids of every scene a chapter lists, conditional or not */
+export function chapterSceneIds(chapter: ChapterBlueprint): string[] {
+  return chapter.scenes.map(sceneEntryId);
+}
+
+/** Every scene a transition can lead to */
+export function transitionTargets(transition: SceneTransition | undefined): string[] {
+  if (transition === undefined) return [];
+  return typeof transition === 'string' ? [transition] : transition.map((option) => option.to);
+}
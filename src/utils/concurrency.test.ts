@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { createLimiter } from './concurrency';
+
+/** A task that stays pending until `finish` is called */
+function deferred() {
+  let finish!: () => void;
+  const done = new Promise<void>((resolve) => (finish = resolve));
+  return { done, finish };
+}
+
+/** Let every settled promise run its callbacks */
+const flush = () => new Promise((resolve) => setTimeout(resolve));
+
+describe('createLimiter', () => {
+  it('runs at most `concurrency` tasks at a time, starting the rest in order', async () => {
+    const limit = createLimiter(2);
+    const tasks = Array.from({ length: 4 }, deferred);
+    const started: number[] = [];
+
+    const results = tasks.map((task, i) =>
+      limit(async () => {
+        started.push(i);
+        await task.done;
+        return i;
+      })
+    );
+    await flush();
+    expect(started).toEqual([0, 1]);
+
+    tasks[1].finish();
+    await flush();
+    expect(started).toEqual([0, 1, 2]);
+
+    tasks.forEach((task) => task.finish());
+    expect(await Promise.all(results)).toEqual([0, 1, 2, 3]);
+    expect(started).toEqual([0, 1, 2, 3]);
+  });
+
+  it('frees the slot of a failed task', async () => {
+    const limit = createLimiter(1);
+
+    const failed = limit(() => Promise.reject(new Error('Not found')));
+    const next = limit(async () => 'next');
+
+    await expect(failed).rejects.toThrow('Not found');
+    expect(await next).toBe('next');
+  });
+});
@@ -0,0 +1,19 @@
+/**
+ * English names of the languages the engine knows how to instruct the model in, keyed by
+ * blueprint language code.
+ */
+export const LANGUAGE_NAMES: Record<string, string> = {
+  en_US: 'English',
+
+  fr_FR: 'French',
+  de_DE: 'German',
+  it_IT: 'Italian',
+  pt_BR: 'Portuguese',
+  ru_RU: 'Russian',
+  ja_JP: 'Japanese',
+  ko_KR: 'Korean',
+  zh_CN: 'Chinese (Simplified)',
+  zh_TW: 'Chinese (Traditional)',
+  ar_SA: 'Arabic',
+  hi_IN: 'Hindi',
+};
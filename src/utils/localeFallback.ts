@@ -0,0 +1,75 @@
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function hasId(value: unknown): value is { id: string } {
+  return isPlainObject(value) && typeof value.id === 'string';
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Fill every field missing from a translated blueprint with the value from the base language.
+ * Objects are merged key by key and arrays of `{ id }` objects (goals, chapters, routes) are
+ * matched by id; anything else present in the translation wins. Paths of the filled fields are
+ * appended to `filled`.
+ */
+export function fillMissingFields(
+  translated: unknown,
+  base: unknown,
+  filled: string[],
+  path: string = ''
+): unknown {
+  if (translated === undefined) {
+    if (base !== undefined) filled.push(path);
+    return base;
+  }
+
+  if (isPlainObject(translated) && isPlainObject(base)) {
+    const result: Record<string, unknown> = { ...translated };
+    for (const [key, baseValue] of Object.entries(base)) {
+      result[key] = fillMissingFields(translated[key], baseValue, filled, joinPath(path, key));
+    }
+    return result;
+  }
+
+  if (Array.isArray(translated) && Array.isArray(base) && base.every(hasId)) {
+    const baseById = new Map(base.map((entry) => [entry.id, entry]));
+    const result: unknown[] = translated.map((entry, i) =>
+      hasId(entry) && baseById.has(entry.id)
+        ? fillMissingFields(entry, baseById.get(entry.id), filled, joinPath(path, i))
+        : entry
+    );
+
+    const translatedIds = new Set(translated.filter(hasId).map((entry) => entry.id));
+    for (const entry of base) {
+      if (!translatedIds.has(entry.id)) {
+        filled.push(joinPath(path, result.length));
+        result.push(entry);
+      }
+    }
+    return result;
+  }
+
+  return translated;
+}
+
+/**
+ * Merge an id index (e.g. `scenes/index.json`) with the base language's, appending ids the
+ * translation doesn't list yet.
+ */
+export function mergeIdLists(translated: unknown, base: unknown, filled: string[]): unknown {
+  if (!Array.isArray(translated) || !Array.isArray(base)) return translated;
+
+  const result = [...translated];
+  for (const id of base) {
+    if (!result.includes(id)) {
+      filled.push(`[${result.length}]`);
+      result.push(id);
+    }
+  }
+  return result;
+}
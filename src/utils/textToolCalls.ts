@@ -0,0 +1,32 @@
+import { ChatToolCall } from '../types/llm';
+
+/** A tool call written on its own line, e.g. `CALL player2_set_flag {"flag": "met"}` */
+const CALL_LINE = /^\s*CALL\s+([A-Za-z0-9_]+)\s*(\{.*\})?\s*$/;
+
+/** How the model is told to call tools when the provider has no native tool calling */
+export const TEXT_TOOL_CALL_FORMAT = `Tool calling isn't available natively here. To call a tool, end your reply with one line per call, each on its own line: CALL <tool_name> {"arg": "value"}
+These lines are hidden from the player; a tool's result comes back as: system: <tool_name> returned {...}`;
+
+/**
+ * Split a reply into what the player sees and the tool calls written as `CALL` lines, for
+ * providers without native tool calling.
+ */
+export function parseTextToolCalls(content: string): { text: string; calls: ChatToolCall[] } {
+  const text: string[] = [];
+  const calls: ChatToolCall[] = [];
+
+  for (const line of content.split('\n')) {
+    const match = line.match(CALL_LINE);
+    if (match) {
+      calls.push({
+        id: `text_call_${calls.length}`,
+        type: 'function',
+        function: { name: match[1], arguments: match[2] ?? '{}' },
+      });
+    } else {
+      text.push(line);
+    }
+  }
+
+  return { text: text.join('\n').trim(), calls };
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { collectTranslatableStrings, mapTranslatableStrings } from './translatable';
+
+const character = {
+  id: 'riley',
+  name: 'Riley',
+  role: 'npc',
+  view: { default: { uri: '/assets/riley.png', prompt: 'A tall student' } },
+  identity: {
+    personality: 'Shy',
+    background: 'New in town',
+    speaking_style: 'Quiet',
+    relationships: { sam: 'Old friend' },
+  },
+  voice: { prompt: 'Soft', gender: 'female', voice_id: 'v1' },
+  inventory: [
+    { id: 'key', name: 'Key', description: 'A rusty key', image: { uri: '/assets/key.png' } },
+  ],
+};
+
+describe('translatable strings', () => {
+  it('collects player-facing text keyed by path, using ids for entries', () => {
+    expect(Object.fromEntries(collectTranslatableStrings(character))).toEqual({
+      name: 'Riley',
+      'identity.personality': 'Shy',
+      'identity.background': 'New in town',
+      'identity.speaking_style': 'Quiet',
+      'identity.relationships.sam': 'Old friend',
+      'inventory[key].name': 'Key',
+      'inventory[key].description': 'A rusty key',
+    });
+  });
+
+  it('falls back to the index for entries without an id', () => {
+    const strings = collectTranslatableStrings([{ title: 'One' }, { title: 'Two' }]);
+    expect(Array.from(strings.keys())).toEqual(['[0].title', '[1].title']);
+  });
+
+  it('maps translatable strings and leaves ids, roles, URIs and voices untouched', () => {
+    const mapped = mapTranslatableStrings(character, (path, text) => `${path}: ${text}`);
+
+    expect(mapped).toEqual({
+      ...character,
+      name: 'name: Riley',
+      identity: {
+        personality: 'identity.personality: Shy',
+        background: 'identity.background: New in town',
+        speaking_style: 'identity.speaking_style: Quiet',
+        relationships: { sam: 'identity.relationships.sam: Old friend' },
+      },
+      inventory: [
+        {
+          ...character.inventory[0],
+          name: 'inventory[key].name: Key',
+          description: 'inventory[key].description: A rusty key',
+        },
+      ],
+    });
+    expect(character.name).toBe('Riley');
+  });
+
+  it('collects the hints of route flag requirements, but not the flags', () => {
+    const routes = [
+      {
+        id: 'riley_route',
+        title: "Riley's Route",
+        requirements: { flags: { met_riley: true }, flag_hints: { met_riley: 'Meet Riley' } },
+      },
+    ];
+
+    expect(Object.fromEntries(collectTranslatableStrings(routes))).toEqual({
+      '[riley_route].title': "Riley's Route",
+      '[riley_route].requirements.flag_hints.met_riley': 'Meet Riley',
+    });
+  });
+
+  it("collects the topic of a scene's opening exchange, but not its participants", () => {
+    const scene = {
+      id: 'scene_2',
+      title: 'Together',
+      opening_exchange: { participants: ['riley', 'sam'], topic: 'Who lost the key', lines: 2 },
+    };
+
+    expect(Object.fromEntries(collectTranslatableStrings(scene))).toEqual({
+      title: 'Together',
+      'opening_exchange.topic': 'Who lost the key',
+    });
+  });
+
+  it('treats every string as translatable in locale files', () => {
+    const locale = { ui: { start: 'Start', menu: { load: 'Load' } } };
+
+    expect(Object.fromEntries(collectTranslatableStrings(locale, { allStrings: true }))).toEqual({
+      'ui.start': 'Start',
+      'ui.menu.load': 'Load',
+    });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Blueprint fields holding player- or model-facing text. Everything else (ids, URIs, roles,
+ * voice settings, image generation prompts) is structural and must stay identical across
+ * languages.
+ */
+const TRANSLATABLE_KEYS = new Set([
+  'name',
+  'title',
+  'description',
+  'intro',
+  'outro',
+  'prompt',
+  'introduction',
+  'personality',
+  'background',
+  'speaking_style',
+  'topic',
+]);
+
+/** Subtrees describing assets rather than text */
+const ASSET_KEYS = new Set(['view', 'image', 'audio', 'voice', 'main_menu_image']);
+
+/** Maps whose values are text, keyed by id, e.g. `identity.relationships.sam` */
+const TEXT_MAP_PATH = /(^|\.)(identity\.relationships|requirements\.flag_hints)\.[^.]+$/;
+
+export interface TranslatableOptions {
+  /** Treat every string as translatable (UI locale files) */
+  allStrings?: boolean;
+}
+
+function segmentFor(entry: unknown, index: number): string {
+  if (typeof entry === 'object' && entry !== null && 'id' in entry) {
+    const id = (entry as { id: unknown }).id;
+    if (typeof id === 'string') return `[${id}]`;
+  }
+  return `[${index}]`;
+}
+
+function mapStrings(
+  value: unknown,
+  path: string,
+  key: string,
+  inAsset: boolean,
+  fn: (path: string, text: string) => string,
+  options: TranslatableOptions
+): unknown {
+  if (typeof value === 'string') {
+    const translatable =
+      options.allStrings || (!inAsset && (TRANSLATABLE_KEYS.has(key) || TEXT_MAP_PATH.test(path)));
+    return translatable ? fn(path, value) : value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((entry, i) =>
+      mapStrings(entry, `${path}${segmentFor(entry, i)}`, key, inAsset, fn, options)
+    );
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [
+        k,
+        mapStrings(v, path ? `${path}.${k}` : k, k, inAsset || ASSET_KEYS.has(k), fn, options),
+      ])
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Return a copy of a blueprint with every translatable string passed through `fn`. Paths use
+ * ids for arrays of `{ id }` objects, e.g. `goals[befriend_riley].description`.
+ */
+export function mapTranslatableStrings(
+  value: unknown,
+  fn: (path: string, text: string) => string,
+  options: TranslatableOptions = {}
+): unknown {
+  return mapStrings(value, '', '', false, fn, options);
+}
+
+/**
+ * Collect every translatable string of a blueprint, keyed by path.
+ */
+export function collectTranslatableStrings(
+  value: unknown,
+  options: TranslatableOptions = {}
+): Map<string, string> {
+  const strings = new Map<string, string>();
+  mapTranslatableStrings(
+    value,
+    (path, text) => {
+      strings.set(path, text);
+      return text;
+    },
+    options
+  );
+  return strings;
+}
@@ -0,0 +1,38 @@
+import { GameBlueprint, VariableDeclaration, VariableValue } from '../types/blueprints';
+
+/** The declaration of a story variable, if the game declares it */
+export function findVariable(game: GameBlueprint, name: string): VariableDeclaration | undefined {
+  return game.variables?.find((variable) => variable.name === name);
+}
+
+/** Why `value` can't be stored in the variable, or null when it can */
+export function variableValueError(
+  declaration: VariableDeclaration,
+  value: unknown
+): string | null {
+  const { name, type, min, max } = declaration;
+
+  if (typeof value !== type || (type === 'number' && !Number.isFinite(value))) {
+    return `vars.${name} must be a ${type} (got ${JSON.stringify(value)})`;
+  }
+  if (typeof value === 'number') {
+    if (min !== undefined && value < min) return `vars.${name} must be at least ${min}`;
+    if (max !== undefined && value > max) return `vars.${name} must be at most ${max}`;
+  }
+  return null;
+}
+
+/** Keep a number within the variable's bounds */
+export function clampVariable(declaration: VariableDeclaration, value: number): number {
+  const { min = -Infinity, max = Infinity } = declaration;
+  return Math.min(max, Math.max(min, value));
+}
+
+/** Variable values for a new game: declared defaults, overridden by `initial_state.vars` */
+export function initialVars(game: GameBlueprint): Record<string, VariableValue> {
+  const vars: Record<string, VariableValue> = {};
+  for (const variable of game.variables ?? []) {
+    vars[variable.name] = variable.default;
+  }
+  return { ...vars, ...game.initial_state?.vars };
+}
@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+declare module 'vite/types/customEvent.d.ts' {
+  interface CustomEventMap {
+    /** Sent by the dev server when a JSON file under public/ changes */
+    'blueprints:changed': { path: string };
+  }
+}
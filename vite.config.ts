@@ -1,7 +1,30 @@
-import { defineConfig } from 'vite';
+import { defineConfig, normalizePath, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+/**
+ * Tells the client which blueprint or theme JSON file under `public/` changed (as a
+ * `blueprints:changed` event) instead of letting it go unnoticed, so BlueprintRegistry can
+ * reload just that file without losing game state.
+ */
+function blueprintHotReload(): Plugin {
+  return {
+    name: 'p2vn:blueprint-hot-reload',
+    apply: 'serve',
+    handleHotUpdate({ file, server }) {
+      const publicDir = `${normalizePath(server.config.publicDir)}/`;
+      if (!file.startsWith(publicDir) || !file.endsWith('.json')) return;
+
+      server.ws.send({
+        type: 'custom',
+        event: 'blueprints:changed',
+        data: { path: file.slice(publicDir.length) },
+      });
+      return [];
+    },
+  };
+}
+
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), blueprintHotReload()],
   base: './',
 });